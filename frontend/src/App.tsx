@@ -1,18 +1,32 @@
+import { useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
 import { AppShell } from './components/layout/AppShell';
 import { ChatView } from './components/chat/ChatView';
 import { ChatInput } from './components/chat/ChatInput';
+import { VersionHistory } from './components/chat/VersionHistory';
+import { SessionFamily } from './components/chat/SessionFamily';
+import { SessionCompare } from './components/chat/SessionCompare';
 import { useWebSocket } from './hooks/useWebSocket';
 
 function App() {
+  const [showHistory, setShowHistory] = useState(false);
+  const [showFamily, setShowFamily] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
   const {
+    sessionId,
     messages,
     isGenerating,
     activity,
     uploadedImages,
     sendMessage,
     resetSession,
+    openSession,
     handleUpload,
     removeUploadedImage,
+    workflows,
+    workflowId,
+    selectWorkflow,
+    reorderFrames,
     // Action Instance Pattern
     awaitingContinuation,
     executingActionId,
@@ -22,7 +36,11 @@ function App() {
   } = useWebSocket();
 
   return (
-    <AppShell onReset={messages.length > 0 ? resetSession : undefined}>
+    <AppShell
+      onReset={messages.length > 0 ? resetSession : undefined}
+      onShowHistory={sessionId ? () => setShowHistory(true) : undefined}
+      onShowFamily={sessionId ? () => setShowFamily(true) : undefined}
+    >
       <ChatView
         messages={messages}
         isGenerating={isGenerating}
@@ -32,6 +50,10 @@ function App() {
         onExecuteAction={executeAction}
         onContinueAction={continueAction}
         onContinue={() => continueSession()}
+        workflows={workflows}
+        selectedWorkflowId={workflowId}
+        onSelectWorkflow={selectWorkflow}
+        onReorderFrames={reorderFrames}
       />
       <ChatInput
         onSend={sendMessage}
@@ -41,6 +63,26 @@ function App() {
         isGenerating={isGenerating}
         placeholder="Describe your fashion shoot..."
       />
+      <AnimatePresence>
+        {showHistory && sessionId && (
+          <VersionHistory sessionId={sessionId} onClose={() => setShowHistory(false)} />
+        )}
+        {showFamily && sessionId && (
+          <SessionFamily
+            sessionId={sessionId}
+            workflows={workflows}
+            onOpenSession={openSession}
+            onCompare={(ids) => {
+              setShowFamily(false);
+              setCompareIds(ids);
+            }}
+            onClose={() => setShowFamily(false)}
+          />
+        )}
+        {compareIds && sessionId && (
+          <SessionCompare sessionId={sessionId} sessionIds={compareIds} onClose={() => setCompareIds(null)} />
+        )}
+      </AnimatePresence>
     </AppShell>
   );
 }
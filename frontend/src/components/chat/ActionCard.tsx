@@ -1,6 +1,33 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import type { ActionMessage as ActionMessageType, ActionParamSchema } from '../../lib/types';
+import type { ActionMessage as ActionMessageType, ActionParamCondition, ActionParamSchema, ActionResult, CostEstimateResponse, PipelineState, UploadResponse } from '../../lib/types';
+import { getOutputUrl, estimateActionCost, getSessionPipeline, getSpeedCurvePreviewUrl, previewAction, uploadAudio, uploadImages } from '../../lib/api';
+import { BezierEditor } from './BezierEditor';
+
+const formatUsd = (usd: number) => `$${usd.toFixed(2)}`;
+
+// Same matching as the server's param validation: unset params use their default
+const matchesCondition = (
+  condition: ActionParamCondition,
+  parameters: Record<string, ActionParamSchema>,
+  params: Record<string, unknown>
+) =>
+  Object.entries(condition).every(([key, expected]) => {
+    const actual = params[key] ?? parameters[key]?.default;
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return accepted.some((value) => String(value) === String(actual));
+  });
+
+// Enum options for the current form values (dependent lists follow their controlling param)
+const getOptions = (
+  schema: ActionParamSchema,
+  parameters: Record<string, ActionParamSchema>,
+  params: Record<string, unknown>
+) => {
+  if (!schema.dependentOptions) return schema.options;
+  const { on, options } = schema.dependentOptions;
+  return options[String(params[on] ?? parameters[on]?.default ?? '')] ?? schema.options;
+};
 
 interface ActionCardProps {
   message: ActionMessageType;
@@ -19,6 +46,13 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
     for (const [key, schema] of Object.entries(template.parameters)) {
       initial[key] = instance.params[key] ?? schema.default ?? '';
     }
+    // A dependent enum's default may not be in the list for the proposed value it depends on
+    for (const [key, schema] of Object.entries(template.parameters)) {
+      const options = getOptions(schema, template.parameters, initial);
+      if (schema.dependentOptions && options?.length && !options.some((opt) => opt.value === initial[key])) {
+        initial[key] = options[0].value;
+      }
+    }
     return initial;
   });
 
@@ -35,6 +69,113 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
     return false;
   }, [formParams, originalParams]);
 
+  // Rejected params keep the form open with the server's messages inline
+  const fieldErrors = result?.errorCode === 'VALIDATION_ERROR' ? result.fieldErrors ?? {} : null;
+
+  // Provider cost estimate for the current params (refreshed as the form changes)
+  const [costEstimate, setCostEstimate] = useState<CostEstimateResponse | null>(null);
+  const isPending = (!result || fieldErrors !== null) && instance.status !== 'executing';
+
+  useEffect(() => {
+    if (!isPending) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimateActionCost(instance.sessionId, template.id, formParams)
+        .then((response) => {
+          if (!cancelled) setCostEstimate(response);
+        })
+        .catch(() => {
+          if (!cancelled) setCostEstimate(null);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isPending, instance.sessionId, template.id, formParams]);
+
+  // Session assets for image pickers and frame multiselects
+  const [pipeline, setPipeline] = useState<PipelineState | null>(null);
+  const needsAssets = Object.values(template.parameters).some((schema) => schema.type === 'image' || schema.type === 'frames');
+
+  useEffect(() => {
+    if (!isPending || !needsAssets) return;
+    let cancelled = false;
+    getSessionPipeline(instance.sessionId)
+      .then((response) => {
+        if (!cancelled) setPipeline(response.pipeline);
+      })
+      .catch(() => {
+        if (!cancelled) setPipeline(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPending, needsAssets, instance.sessionId]);
+
+  const frameSequence = useMemo(() => {
+    const frames = pipeline?.assets.frames ?? [];
+    const order = pipeline?.assets.frameOrder;
+    return order ? order.map((index) => frames[index]).filter(Boolean) : frames;
+  }, [pipeline]);
+
+  // Uploads live outside the session output dir and are served from /uploads
+  const getAssetUrl = (path: string) =>
+    /(^|\/)uploads\//.test(path) ? `/uploads/${path.split('/').pop()}` : getOutputUrl(path, instance.sessionId);
+
+  const getImageChoices = (schema: ActionParamSchema) => {
+    const sources = schema.imageSources ?? ['hero', 'contactSheet', 'frames', 'uploads'];
+    const choices: Array<{ path: string; label: string }> = [];
+    if (sources.includes('hero') && pipeline?.assets.hero) {
+      choices.push({ path: pipeline.assets.hero, label: 'Hero' });
+    }
+    if (sources.includes('contactSheet') && pipeline?.assets.contactSheet) {
+      choices.push({ path: pipeline.assets.contactSheet, label: 'Contact sheet' });
+    }
+    if (sources.includes('frames')) {
+      frameSequence.forEach((frame, idx) => choices.push({ path: frame, label: `Frame ${idx + 1}` }));
+    }
+    if (sources.includes('uploads')) {
+      (pipeline?.inputImages ?? []).forEach((upload, idx) => choices.push({ path: upload, label: `Upload ${idx + 1}` }));
+    }
+    return choices;
+  };
+
+  // Audio and image params upload on pick; the uploaded path becomes the value
+  const [uploadingParam, setUploadingParam] = useState<string | null>(null);
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+
+  const handleUpload = async (key: string, upload: () => Promise<UploadResponse>) => {
+    setUploadingParam(key);
+    setUploadErrors((prev) => ({ ...prev, [key]: '' }));
+    try {
+      const response = await upload();
+      updateParam(key, response.files[0]?.path ?? '');
+    } catch (error) {
+      setUploadErrors((prev) => ({ ...prev, [key]: error instanceof Error ? error.message : 'Upload failed' }));
+    } finally {
+      setUploadingParam(null);
+    }
+  };
+
+  // Still-frame preview for previewable templates (rendered server-side, not a run)
+  const [preview, setPreview] = useState<{ result: ActionResult; renderedAt: number } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview({ result: await previewAction(instance.sessionId, template.id, formParams), renderedAt: Date.now() });
+    } catch (error) {
+      setPreview({
+        result: { success: false, error: error instanceof Error ? error.message : 'Preview failed' },
+        renderedAt: Date.now(),
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   // Reset to original params
   const handleReset = useCallback(() => {
     setFormParams({ ...originalParams });
@@ -45,15 +186,27 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
     onExecute(instance.instanceId, formParams, originalParams);
   }, [instance.instanceId, formParams, originalParams, onExecute]);
 
-  // Update a single param
+  // Update a single param; dependent enums whose value left their option list reset to the first option
   const updateParam = useCallback((key: string, value: unknown) => {
-    setFormParams((prev) => ({ ...prev, [key]: value }));
-  }, []);
+    setFormParams((prev) => {
+      const next = { ...prev, [key]: value };
+      for (const [depKey, depSchema] of Object.entries(template.parameters)) {
+        if (depSchema.dependentOptions?.on !== key) continue;
+        const options = getOptions(depSchema, template.parameters, next) ?? [];
+        if (options.length > 0 && !options.some((opt) => opt.value === next[depKey])) {
+          next[depKey] = options[0].value;
+        }
+      }
+      return next;
+    });
+  }, [template.parameters]);
 
   // Render form field based on schema type
   const renderField = (key: string, schema: ActionParamSchema) => {
     const value = formParams[key];
     const isModified = JSON.stringify(value) !== JSON.stringify(originalParams[key]);
+    const isEnabled = !schema.enabledWhen || matchesCondition(schema.enabledWhen, template.parameters, formParams);
+    const disabled = schema.locked || isExecuting || !isEnabled;
 
     switch (schema.type) {
       case 'enum':
@@ -67,12 +220,12 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
             <select
               value={String(value ?? '')}
               onChange={(e) => updateParam(key, e.target.value)}
-              disabled={schema.locked || isExecuting}
+              disabled={disabled}
               className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
                          focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
                          disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {schema.options?.map((opt) => (
+              {getOptions(schema, template.parameters, formParams)?.map((opt) => (
                 <option key={opt.value} value={opt.value}>
                   {opt.label}
                 </option>
@@ -97,7 +250,7 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
                 value={String(value ?? '')}
                 onChange={(e) => updateParam(key, e.target.value)}
                 placeholder={schema.placeholder}
-                disabled={schema.locked || isExecuting}
+                disabled={disabled}
                 rows={4}
                 className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
                            focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
@@ -109,7 +262,7 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
                 value={String(value ?? '')}
                 onChange={(e) => updateParam(key, e.target.value)}
                 placeholder={schema.placeholder}
-                disabled={schema.locked || isExecuting}
+                disabled={disabled}
                 className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
                            focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
                            disabled:opacity-50 disabled:cursor-not-allowed"
@@ -129,7 +282,7 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
               id={`action-${instance.instanceId}-${key}`}
               checked={Boolean(value)}
               onChange={(e) => updateParam(key, e.target.checked)}
-              disabled={schema.locked || isExecuting}
+              disabled={disabled}
               className="w-4 h-4 rounded border-border bg-surface-elevated text-accent
                          focus:ring-2 focus:ring-accent/50 focus:ring-offset-0
                          disabled:opacity-50 disabled:cursor-not-allowed"
@@ -159,7 +312,7 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
               min={schema.min}
               max={schema.max}
               step={schema.step}
-              disabled={schema.locked || isExecuting}
+              disabled={disabled}
               className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
                          focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
                          disabled:opacity-50 disabled:cursor-not-allowed"
@@ -170,34 +323,412 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
           </div>
         );
 
+      case 'list': {
+        const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+        const itemFields = Object.entries(schema.itemFields ?? {});
+        const canAdd = !schema.maxItems || rows.length < schema.maxItems;
+
+        const updateRow = (index: number, field: string, fieldValue: unknown) => {
+          updateParam(key, rows.map((row, i) => (i === index ? { ...row, [field]: fieldValue } : row)));
+        };
+        const addRow = () => {
+          const row: Record<string, unknown> = {};
+          for (const [field, fieldSchema] of itemFields) {
+            row[field] = fieldSchema.default ?? '';
+          }
+          updateParam(key, [...rows, row]);
+        };
+        const removeRow = (index: number) => {
+          updateParam(key, rows.filter((_, i) => i !== index));
+        };
+
+        return (
+          <div key={key} className="space-y-1.5">
+            <label className="block text-xs font-medium text-text-secondary">
+              {schema.label}
+              {schema.required && <span className="text-accent ml-1">*</span>}
+              {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+            </label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-[10px] text-text-muted w-10 shrink-0">
+                  {schema.itemLabel ?? '#'} {index + 1}
+                </span>
+                {itemFields.map(([field, fieldSchema]) =>
+                  fieldSchema.type === 'enum' ? (
+                    <select
+                      key={field}
+                      value={String(row[field] ?? '')}
+                      onChange={(e) => updateRow(index, field, e.target.value)}
+                      disabled={disabled}
+                      title={fieldSchema.label}
+                      className="w-36 shrink-0 bg-surface-elevated border border-border/50 rounded-lg px-2 py-1.5 text-xs text-text-primary
+                                 focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {fieldSchema.options?.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      key={field}
+                      type="text"
+                      value={String(row[field] ?? '')}
+                      onChange={(e) => updateRow(index, field, e.target.value)}
+                      placeholder={fieldSchema.placeholder ?? fieldSchema.label}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 bg-surface-elevated border border-border/50 rounded-lg px-2 py-1.5 text-xs text-text-primary
+                                 focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                    />
+                  )
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeRow(index)}
+                  disabled={disabled}
+                  className="text-xs text-text-muted hover:text-red-400 transition-colors disabled:opacity-50"
+                  aria-label={`Remove ${schema.itemLabel ?? 'row'} ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {canAdd && (
+              <button
+                type="button"
+                onClick={addRow}
+                disabled={disabled}
+                className="text-xs text-accent hover:text-accent/80 transition-colors disabled:opacity-50"
+              >
+                + Add {schema.itemLabel?.toLowerCase() ?? 'row'}
+              </button>
+            )}
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+      }
+
+      case 'image': {
+        const choices = getImageChoices(schema);
+        const canUpload = (schema.imageSources ?? ['uploads']).includes('uploads');
+        const isUploading = uploadingParam === key;
+        // An image uploaded from this card isn't one of the session's input images
+        if (typeof value === 'string' && value && !choices.some((choice) => choice.path === value)) {
+          choices.unshift({ path: value, label: 'Uploaded' });
+        }
+        return (
+          <div key={key} className="space-y-1.5">
+            <label className="block text-xs font-medium text-text-secondary">
+              {schema.label}
+              {schema.required && <span className="text-accent ml-1">*</span>}
+              {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+            </label>
+            {choices.length === 0 && !canUpload ? (
+              <p className="text-xs text-text-muted">No images in this session yet.</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {choices.map((choice) => (
+                  <button
+                    key={choice.path}
+                    type="button"
+                    onClick={() => updateParam(key, choice.path)}
+                    disabled={disabled}
+                    title={choice.label}
+                    className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50
+                               ${value === choice.path ? 'border-accent' : 'border-transparent hover:border-border'}`}
+                  >
+                    <img src={getAssetUrl(choice.path)} alt={choice.label} className="w-full h-full object-cover" />
+                    <span className="absolute bottom-1 left-1 text-[10px] bg-black/50 px-1.5 py-0.5 rounded text-white">
+                      {choice.label}
+                    </span>
+                  </button>
+                ))}
+                {canUpload && (
+                  <label
+                    className={`aspect-square rounded-lg border-2 border-dashed border-border flex items-center justify-center
+                               text-[10px] text-text-muted transition-colors
+                               ${disabled || isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-accent/50 hover:text-text-secondary'}`}
+                  >
+                    {isUploading ? 'Uploading...' : '+ Upload'}
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      disabled={disabled || isUploading}
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleUpload(key, () => uploadImages([file]));
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+            {typeof value === 'string' && value && !schema.required && (
+              <button
+                type="button"
+                onClick={() => updateParam(key, '')}
+                disabled={disabled || isUploading}
+                className="text-xs text-text-muted hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                Clear
+              </button>
+            )}
+            {uploadErrors[key] && (
+              <p className="text-[10px] text-red-400">{uploadErrors[key]}</p>
+            )}
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+      }
+
+      case 'frames': {
+        const selected = Array.isArray(value) ? (value as number[]) : [];
+        const canSelectMore = !schema.maxItems || selected.length < schema.maxItems;
+        const toggleFrame = (frameNumber: number) => {
+          updateParam(
+            key,
+            selected.includes(frameNumber)
+              ? selected.filter((n) => n !== frameNumber)
+              : [...selected, frameNumber].sort((a, b) => a - b)
+          );
+        };
+        return (
+          <div key={key} className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <label className="block text-xs font-medium text-text-secondary">
+                {schema.label}
+                {schema.required && <span className="text-accent ml-1">*</span>}
+                {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+              </label>
+              {frameSequence.length > 0 && (
+                <div className="flex gap-2 text-[10px]">
+                  {!schema.maxItems && (
+                    <button
+                      type="button"
+                      onClick={() => updateParam(key, frameSequence.map((_, idx) => idx + 1))}
+                      disabled={disabled}
+                      className="text-accent hover:text-accent/80 disabled:opacity-50"
+                    >
+                      All
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => updateParam(key, [])}
+                    disabled={disabled}
+                    className="text-text-muted hover:text-text-secondary disabled:opacity-50"
+                  >
+                    None
+                  </button>
+                </div>
+              )}
+            </div>
+            {frameSequence.length === 0 ? (
+              <p className="text-xs text-text-muted">No frames extracted yet.</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {frameSequence.map((frame, idx) => {
+                  const frameNumber = idx + 1;
+                  const isSelected = selected.includes(frameNumber);
+                  return (
+                    <button
+                      key={frame}
+                      type="button"
+                      onClick={() => toggleFrame(frameNumber)}
+                      disabled={disabled || (!isSelected && !canSelectMore)}
+                      className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50
+                                 ${isSelected ? 'border-accent' : 'border-transparent hover:border-border'}`}
+                    >
+                      <img src={getAssetUrl(frame)} alt={`Frame ${frameNumber}`} className="w-full h-full object-cover" />
+                      <span className={`absolute bottom-1 right-1 text-[10px] px-1.5 py-0.5 rounded
+                                        ${isSelected ? 'bg-accent text-background' : 'bg-black/50 text-white'}`}>
+                        {frameNumber}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+      }
+
+      case 'bezier':
+        return (
+          <div key={key} className="space-y-1.5">
+            <label className="block text-xs font-medium text-text-secondary">
+              {schema.label}
+              {schema.required && <span className="text-accent ml-1">*</span>}
+              {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+            </label>
+            <BezierEditor
+              value={value}
+              defaultValue={schema.default}
+              onChange={(points) => updateParam(key, points)}
+              disabled={disabled}
+            />
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+
+      case 'color':
+        return (
+          <div key={key} className="space-y-1.5">
+            <label className="block text-xs font-medium text-text-secondary">
+              {schema.label}
+              {schema.required && <span className="text-accent ml-1">*</span>}
+              {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={/^#[0-9a-f]{6}$/i.test(String(value)) ? String(value) : '#000000'}
+                onChange={(e) => updateParam(key, e.target.value)}
+                disabled={disabled}
+                className="w-10 h-9 shrink-0 bg-surface-elevated border border-border/50 rounded-lg cursor-pointer
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+              <input
+                type="text"
+                value={String(value ?? '')}
+                onChange={(e) => updateParam(key, e.target.value)}
+                placeholder="#ffffff"
+                disabled={disabled}
+                className="w-28 bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary font-mono
+                           focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+            </div>
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+
+      case 'audio': {
+        const audioPath = typeof value === 'string' ? value : '';
+        const isUploading = uploadingParam === key;
+        return (
+          <div key={key} className="space-y-1.5">
+            <label className="block text-xs font-medium text-text-secondary">
+              {schema.label}
+              {schema.required && <span className="text-accent ml-1">*</span>}
+              {isModified && <span className="text-accent/60 ml-2 text-[10px]">(modified)</span>}
+            </label>
+            {audioPath && <audio src={getAssetUrl(audioPath)} controls className="w-full h-9" />}
+            <div className="flex items-center gap-3">
+              <label
+                className={`text-xs px-3 py-1.5 rounded-lg border border-border/50 bg-surface-elevated text-text-primary transition-colors
+                           ${disabled || isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-accent/50'}`}
+              >
+                {isUploading ? 'Uploading...' : audioPath ? 'Replace track' : 'Upload track'}
+                <input
+                  type="file"
+                  accept="audio/*"
+                  disabled={disabled || isUploading}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleUpload(key, () => uploadAudio(file));
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {audioPath && (
+                <button
+                  type="button"
+                  onClick={() => updateParam(key, '')}
+                  disabled={disabled || isUploading}
+                  className="text-xs text-text-muted hover:text-red-400 transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            {uploadErrors[key] && (
+              <p className="text-[10px] text-red-400">{uploadErrors[key]}</p>
+            )}
+            {schema.description && (
+              <p className="text-[10px] text-text-muted">{schema.description}</p>
+            )}
+          </div>
+        );
+      }
+
       default:
         return null;
     }
   };
 
-  // Separate basic and advanced parameters
-  const basicParams = Object.entries(template.parameters).filter(([_, schema]) => !schema.advanced);
-  const advancedParams = Object.entries(template.parameters).filter(([_, schema]) => schema.advanced);
+  // Validation messages for a param, including its list rows ("Clip 2 Camera Move: ...")
+  const getFieldErrors = (key: string, schema: ActionParamSchema): string[] =>
+    Object.entries(fieldErrors ?? {})
+      .filter(([path]) => path === key || path.startsWith(`${key}.`))
+      .map(([path, error]) => {
+        const [, row, field] = path.split('.');
+        if (row === undefined) return error;
+        const fieldLabel = field ? schema.itemFields?.[field]?.label ?? field : '';
+        return `${schema.itemLabel ?? '#'} ${Number(row) + 1}${fieldLabel ? ` ${fieldLabel}` : ''}: ${error}`;
+      });
+
+  // Speed-curve graph under a curve param; hidden while the value doesn't parse
+  const renderCurvePreview = (key: string, schema: ActionParamSchema) => {
+    const value = formParams[key] ?? schema.default;
+    const curve = Array.isArray(value) ? value.join(',') : String(value ?? '').trim();
+    if (!curve) return null;
+    const durationParam = schema.curvePreview?.durationParam;
+    const duration = durationParam ? Number(formParams[durationParam]) : undefined;
+    return (
+      <img
+        src={getSpeedCurvePreviewUrl(curve, duration)}
+        alt={`${schema.label} speed curve`}
+        onLoad={(e) => (e.currentTarget.style.visibility = 'visible')}
+        onError={(e) => (e.currentTarget.style.visibility = 'hidden')}
+        className="w-full max-w-xs rounded-lg border border-border/50"
+      />
+    );
+  };
+
+  const renderParam = ([key, schema]: [string, ActionParamSchema]) => (
+    <div key={key} className="space-y-1">
+      {renderField(key, schema)}
+      {schema.curvePreview && renderCurvePreview(key, schema)}
+      {getFieldErrors(key, schema).map((error) => (
+        <p key={error} className="text-[10px] text-red-400">{error}</p>
+      ))}
+    </div>
+  );
+
+  // Separate basic and advanced parameters, leaving out the ones that don't apply
+  const visibleParams = Object.entries(template.parameters).filter(
+    ([, schema]) => !schema.visibleWhen || matchesCondition(schema.visibleWhen, template.parameters, formParams)
+  );
+  const basicParams = visibleParams.filter(([, schema]) => !schema.advanced);
+  const advancedParams = visibleParams.filter(([, schema]) => schema.advanced);
 
   // Helper to check if path is a video
   const isVideo = (path: string) => /\.(mp4|webm|mov|avi)$/i.test(path);
 
   // Helper to convert artifact path to URL
-  const getArtifactUrl = (path: string) => {
-    // If path starts with outputs/, it's a relative path that needs /outputs/ prefix
-    if (path.startsWith('outputs/')) {
-      return '/' + path;
-    }
-    // If path already starts with /, use as-is
-    if (path.startsWith('/')) {
-      return path;
-    }
-    // Otherwise, assume it needs /outputs/ prefix
-    return '/outputs/' + path;
-  };
+  const getArtifactUrl = (path: string) => getOutputUrl(path, instance.sessionId);
 
   // Show result summary if completed
-  if (result) {
+  if (result && fieldErrors === null) {
     // Get all artifacts to display
     const artifacts: string[] = [];
     if (result.artifact) {
@@ -225,6 +756,9 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
               {result.duration && (
                 <span className="text-text-muted">({(result.duration / 1000).toFixed(1)}s)</span>
               )}
+              {result.cost && result.cost.totalUsd > 0 && (
+                <span className="text-text-muted">· ~{formatUsd(result.cost.totalUsd)}</span>
+              )}
             </div>
 
             {result.message && (
@@ -239,6 +773,16 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
               </p>
             )}
 
+            {result.itemErrors && result.itemErrors.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {result.itemErrors.map((item) => (
+                  <li key={item.index} className="text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">
+                    #{item.index}: {item.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {/* Render artifacts */}
             {artifacts.length > 0 && (
               <div className="mt-4 space-y-3">
@@ -263,7 +807,7 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
                 ) : (
                   // Multiple artifacts - render as grid
                   <div className="grid grid-cols-3 gap-2">
-                    {artifacts.slice(0, 6).map((artifact, idx) => (
+                    {artifacts.map((artifact, idx) => (
                       <div key={idx} className="relative aspect-square">
                         {isVideo(artifact) ? (
                           <video
@@ -294,6 +838,24 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
               </div>
             )}
 
+            {result.downloads && result.downloads.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {result.downloads.map((item) => (
+                  <li key={item.id}>
+                    <a
+                      href={getArtifactUrl(item.path)}
+                      download={item.path.split('/').pop()}
+                      className="inline-flex items-center gap-1.5 text-xs text-accent hover:text-accent/80 transition-colors"
+                    >
+                      <span>⬇</span>
+                      <span>{item.label}</span>
+                      <span className="text-text-muted">.{item.path.split('.').pop()}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {awaitingContinuation && (
               <p className="mt-3 text-xs text-accent">
                 Ready to continue. Click the Continue button below or type a message.
@@ -359,22 +921,75 @@ export function ActionCard({ message, onExecute, onCancel, isExecuting = false }
 
       {/* Form fields */}
       <div className="space-y-4">
-        {basicParams.map(([key, schema]) => renderField(key, schema))}
+        {basicParams.map(renderParam)}
 
         {advancedParams.length > 0 && (
-          <details className="group">
+          <details className="group" open={advancedParams.some(([key, schema]) => getFieldErrors(key, schema).length > 0) || undefined}>
             <summary className="text-xs text-text-muted cursor-pointer hover:text-text-secondary transition-colors">
               Advanced options ({advancedParams.length})
             </summary>
             <div className="mt-3 space-y-4 pl-2 border-l border-border/30">
-              {advancedParams.map(([key, schema]) => renderField(key, schema))}
+              {advancedParams.map(renderParam)}
             </div>
           </details>
         )}
       </div>
 
+      {fieldErrors && (
+        <p className="mt-4 text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">
+          {fieldErrors._ ?? 'Some parameters are invalid. Fix the highlighted fields and generate again.'}
+        </p>
+      )}
+
+      {/* Cost estimate */}
+      {costEstimate?.estimate && (
+        <div className={`mt-4 text-xs ${costEstimate.withinBudget ? 'text-text-muted' : 'text-red-400'}`}>
+          <p title={costEstimate.estimate.items.map((item) => `${item.quantity} × ${item.label}: ${formatUsd(item.usd)}`).join('\n')}>
+            Estimated cost: ~{formatUsd(costEstimate.estimate.totalUsd)}
+            {costEstimate.budgetUsd !== null && (
+              <span>
+                {' '}· {formatUsd(costEstimate.spentUsd)} of {formatUsd(costEstimate.budgetUsd)} budget spent
+              </span>
+            )}
+          </p>
+          {!costEstimate.withinBudget && <p className="mt-0.5">This would exceed the session budget.</p>}
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="mt-4 space-y-1.5">
+          {preview.result.success && preview.result.artifact ? (
+            <>
+              <img
+                src={`${getOutputUrl(preview.result.artifact, instance.sessionId)}?t=${preview.renderedAt}`}
+                alt="Preview"
+                className="w-full rounded-lg border border-border/50"
+              />
+              {preview.result.message && <p className="text-[10px] text-text-muted">{preview.result.message}</p>}
+            </>
+          ) : (
+            <p className="text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">
+              {preview.result.fieldErrors
+                ? Object.values(preview.result.fieldErrors).join(' · ')
+                : preview.result.error || 'Preview failed'}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Actions */}
       <div className="mt-4 flex items-center gap-3">
+        {template.previewable && (
+          <button
+            onClick={handlePreview}
+            disabled={isExecuting || isPreviewing}
+            className="text-sm px-4 py-2.5 rounded-lg border border-border/50 text-text-secondary hover:border-accent/50
+                       hover:text-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPreviewing ? 'Rendering...' : 'Preview'}
+          </button>
+        )}
         <button
           onClick={handleExecute}
           disabled={isExecuting}
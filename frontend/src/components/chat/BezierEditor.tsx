@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react';
+
+export type BezierPoints = [number, number, number, number];
+
+interface BezierEditorProps {
+  // [x1, y1, x2, y2] or "x1,y1,x2,y2"; falls back to defaultValue, then ease-in-out
+  value: unknown;
+  defaultValue?: unknown;
+  onChange: (value: BezierPoints) => void;
+  disabled?: boolean;
+}
+
+// Plot area: x 0-1 across, y -0.25-1.25 up (room for overshoot curves)
+const SIZE = 160;
+const PAD = 12;
+const Y_MIN = -0.25;
+const Y_MAX = 1.25;
+
+const toSvg = (x: number, y: number) => ({
+  x: PAD + x * (SIZE - PAD * 2),
+  y: PAD + (1 - (y - Y_MIN) / (Y_MAX - Y_MIN)) * (SIZE - PAD * 2),
+});
+
+const fromSvg = (x: number, y: number) => ({
+  x: Math.min(1, Math.max(0, (x - PAD) / (SIZE - PAD * 2))),
+  y: Math.min(Y_MAX, Math.max(Y_MIN, Y_MIN + (1 - (y - PAD) / (SIZE - PAD * 2)) * (Y_MAX - Y_MIN))),
+});
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const EASE_IN_OUT: BezierPoints = [0.42, 0, 0.58, 1];
+
+function parseBezier(value: unknown): BezierPoints | null {
+  const points = (Array.isArray(value) ? value : String(value ?? '').split(',')).map(Number);
+  return points.length === 4 && points.every(Number.isFinite) ? (points as BezierPoints) : null;
+}
+
+export function BezierEditor({ value: rawValue, defaultValue, onChange, disabled = false }: BezierEditorProps) {
+  const value = parseBezier(rawValue) ?? parseBezier(defaultValue) ?? EASE_IN_OUT;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<0 | 1 | null>(null);
+  const [text, setText] = useState<string | null>(null);
+
+  const [x1, y1, x2, y2] = value;
+  const start = toSvg(0, 0);
+  const end = toSvg(1, 1);
+  const p1 = toSvg(x1, y1);
+  const p2 = toSvg(x2, y2);
+
+  const moveHandle = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const point = fromSvg(((e.clientX - rect.left) / rect.width) * SIZE, ((e.clientY - rect.top) / rect.height) * SIZE);
+    const next: BezierPoints = [...value];
+    next[dragging * 2] = round(point.x);
+    next[dragging * 2 + 1] = round(point.y);
+    onChange(next);
+  };
+
+  const handle = (index: 0 | 1, point: { x: number; y: number }) => (
+    <circle
+      cx={point.x}
+      cy={point.y}
+      r={6}
+      className={`fill-accent ${disabled ? '' : 'cursor-grab'}`}
+      onPointerDown={(e) => {
+        if (disabled) return;
+        e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+        setDragging(index);
+      }}
+    />
+  );
+
+  return (
+    <div className={`flex items-center gap-3 ${disabled ? 'opacity-50' : ''}`}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-40 h-40 shrink-0 bg-surface-elevated border border-border/50 rounded-lg touch-none select-none"
+        onPointerMove={moveHandle}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        {/* 0 and 1 guides */}
+        <line x1={PAD} x2={SIZE - PAD} y1={start.y} y2={start.y} className="stroke-border" strokeDasharray="2 3" />
+        <line x1={PAD} x2={SIZE - PAD} y1={end.y} y2={end.y} className="stroke-border" strokeDasharray="2 3" />
+        <line x1={start.x} y1={start.y} x2={p1.x} y2={p1.y} className="stroke-text-muted" />
+        <line x1={end.x} y1={end.y} x2={p2.x} y2={p2.y} className="stroke-text-muted" />
+        <path
+          d={`M ${start.x} ${start.y} C ${p1.x} ${p1.y}, ${p2.x} ${p2.y}, ${end.x} ${end.y}`}
+          className="stroke-text-primary fill-none"
+          strokeWidth={2}
+        />
+        {handle(0, p1)}
+        {handle(1, p2)}
+      </svg>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <input
+          type="text"
+          value={text ?? value.join(', ')}
+          onChange={(e) => {
+            setText(e.target.value);
+            const parsed = parseBezier(e.target.value);
+            if (parsed) onChange(parsed);
+          }}
+          onBlur={() => setText(null)}
+          disabled={disabled}
+          className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-1.5 text-xs text-text-primary font-mono
+                     focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50
+                     disabled:cursor-not-allowed"
+        />
+        <p className="text-[10px] text-text-muted font-mono">cubic-bezier({value.join(', ')})</p>
+      </div>
+    </div>
+  );
+}
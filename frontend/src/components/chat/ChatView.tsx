@@ -1,6 +1,6 @@
 import { useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { ChatMessage, ImageMessage as ImageMessageType, VideoMessage as VideoMessageType, ToolUseMessage as ToolUseMessageType, ActionMessage as ActionMessageType } from '../../lib/types';
+import type { ChatMessage, ImageMessage as ImageMessageType, VideoMessage as VideoMessageType, ToolUseMessage as ToolUseMessageType, ActionMessage as ActionMessageType, WorkflowSummary } from '../../lib/types';
 import { TextMessage } from './TextMessage';
 import { ThinkingMessage } from './ThinkingMessage';
 import { ImageMessage } from './ImageMessage';
@@ -22,6 +22,11 @@ interface ChatViewProps {
   onExecuteAction?: (instanceId: string, params: Record<string, unknown>, originalParams: Record<string, unknown>) => void;
   onContinueAction?: (instanceId: string) => void;
   onContinue?: () => void;
+  // Workflow selection (shown before the first message)
+  workflows?: WorkflowSummary[];
+  selectedWorkflowId?: string | null;
+  onSelectWorkflow?: (workflowId: string) => void;
+  onReorderFrames?: (frameNumbers: number[]) => void;
 }
 
 // Group consecutive image/video messages for grid display
@@ -89,6 +94,10 @@ export function ChatView({
   onExecuteAction,
   onContinueAction,
   onContinue,
+  workflows = [],
+  selectedWorkflowId = null,
+  onSelectWorkflow,
+  onReorderFrames,
 }: ChatViewProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -147,7 +156,7 @@ export function ChatView({
           exit={{ opacity: 0, y: -10 }}
           transition={{ duration: 0.2 }}
         >
-          <ImageGrid images={group.images} />
+          <ImageGrid images={group.images} onReorder={isGenerating ? undefined : onReorderFrames} />
         </motion.div>
       );
     }
@@ -194,6 +203,28 @@ export function ChatView({
               Upload reference images and describe your vision. The AI will generate a complete
               editorial photoshoot with hero shots, contact sheets, and video content.
             </p>
+
+            {/* Workflow picker - only useful when more than one workflow is configured */}
+            {workflows.length > 1 && onSelectWorkflow && (
+              <div className="max-w-xs mx-auto mt-6 text-left">
+                <label className="block text-xs text-text-muted mb-1.5">Workflow</label>
+                <select
+                  value={selectedWorkflowId ?? ''}
+                  onChange={(e) => onSelectWorkflow(e.target.value)}
+                  className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
+                             focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50"
+                >
+                  {workflows.map((workflow) => (
+                    <option key={workflow.id} value={workflow.id}>
+                      {workflow.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-text-muted mt-1.5">
+                  {workflows.find((w) => w.id === selectedWorkflowId)?.description}
+                </p>
+              </div>
+            )}
           </motion.div>
         )}
 
@@ -4,11 +4,62 @@ import type { ImageMessage as ImageMessageType } from '../../lib/types';
 
 interface ImageGridProps {
   images: ImageMessageType[];
+  onReorder?: (frameNumbers: number[]) => void;  // Enables drag-to-reorder for extracted frames
 }
 
-export function ImageGrid({ images }: ImageGridProps) {
+// Grid frame number from an extracted frame URL
+// (/outputs/<sessionId>/frames/frame-3.png or a stored version, .../versions/frame-3/v2.png → 3)
+function getFrameNumber(src: string): number | null {
+  const match = /\/frame-(\d+)(?:\.\w+|\/v\d+\.\w+)(?:\?|$)/.exec(src);
+  return match ? Number(match[1]) : null;
+}
+
+export function ImageGrid({ images, onReorder }: ImageGridProps) {
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [loadedImages, setLoadedImages] = useState<Set<number>>(new Set());
+  // Reorder mode: sequence of image indices, plus frames the user dropped
+  const [isReordering, setIsReordering] = useState(false);
+  const [sequence, setSequence] = useState<number[]>([]);
+  const [dropped, setDropped] = useState<Set<number>>(new Set());
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const frameNumbers = images.map((image) => getFrameNumber(image.src));
+  const canReorder = !!onReorder && images.length > 1 && frameNumbers.every((n) => n !== null);
+
+  const startReorder = () => {
+    setSequence(images.map((_, index) => index));
+    setDropped(new Set());
+    setIsReordering(true);
+  };
+
+  const moveTile = (from: number, to: number) => {
+    setSequence((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const toggleDropped = (imageIndex: number) => {
+    setDropped((prev) => {
+      const next = new Set(prev);
+      if (next.has(imageIndex)) {
+        next.delete(imageIndex);
+      } else {
+        next.add(imageIndex);
+      }
+      return next;
+    });
+  };
+
+  const applyReorder = () => {
+    const order = sequence
+      .filter((imageIndex) => !dropped.has(imageIndex))
+      .map((imageIndex) => frameNumbers[imageIndex]!);
+    setIsReordering(false);
+    onReorder?.(order);
+  };
 
   const handleImageLoad = (index: number) => {
     setLoadedImages((prev) => new Set(prev).add(index));
@@ -57,36 +108,99 @@ export function ImageGrid({ images }: ImageGridProps) {
   return (
     <div className="flex justify-start">
       <div className="w-full max-w-lg">
-        {/* Grid container */}
-        <div className="image-grid">
-          {images.map((image, index) => (
-            <motion.div
-              key={image.id}
-              className="relative aspect-square bg-surface-elevated rounded overflow-hidden cursor-pointer"
-              whileHover={{ scale: 1.02 }}
-              onClick={() => setSelectedIndex(index)}
-            >
-              {!loadedImages.has(index) && <div className="absolute inset-0 skeleton" />}
-              <img
-                src={image.src}
-                alt={image.caption || `Frame ${index + 1}`}
-                className={`w-full h-full object-cover transition-opacity duration-300 ${
-                  loadedImages.has(index) ? 'opacity-100' : 'opacity-0'
-                }`}
-                onLoad={() => handleImageLoad(index)}
-              />
-              {/* Frame number badge */}
-              <div className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-background/70 text-[10px] font-mono text-text-secondary">
-                {index + 1}
+        {/* Reorder mode: drag tiles to change the sequence, click to drop a frame */}
+        {isReordering ? (
+          <div className="image-grid">
+            {sequence.map((imageIndex, position) => (
+              <div
+                key={images[imageIndex].id}
+                draggable
+                onDragStart={() => setDragIndex(position)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null && dragIndex !== position) {
+                    moveTile(dragIndex, position);
+                  }
+                  setDragIndex(null);
+                }}
+                onClick={() => toggleDropped(imageIndex)}
+                className={`relative aspect-square bg-surface-elevated rounded overflow-hidden cursor-grab
+                  ring-2 ${dragIndex === position ? 'ring-accent' : 'ring-transparent'}
+                  ${dropped.has(imageIndex) ? 'opacity-30' : ''}`}
+              >
+                <img
+                  src={images[imageIndex].src}
+                  alt={`Frame ${frameNumbers[imageIndex]}`}
+                  className="w-full h-full object-cover pointer-events-none"
+                />
+                <div className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-background/70 text-[10px] font-mono text-text-secondary">
+                  {dropped.has(imageIndex) ? '✕' : `${position + 1} · F${frameNumbers[imageIndex]}`}
+                </div>
               </div>
-            </motion.div>
-          ))}
-        </div>
+            ))}
+          </div>
+        ) : (
+          <div className="image-grid">
+            {images.map((image, index) => (
+              <motion.div
+                key={image.id}
+                className="relative aspect-square bg-surface-elevated rounded overflow-hidden cursor-pointer"
+                whileHover={{ scale: 1.02 }}
+                onClick={() => setSelectedIndex(index)}
+              >
+                {!loadedImages.has(index) && <div className="absolute inset-0 skeleton" />}
+                <img
+                  src={image.src}
+                  alt={image.caption || `Frame ${index + 1}`}
+                  className={`w-full h-full object-cover transition-opacity duration-300 ${
+                    loadedImages.has(index) ? 'opacity-100' : 'opacity-0'
+                  }`}
+                  onLoad={() => handleImageLoad(index)}
+                />
+                {/* Frame number badge */}
+                <div className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-background/70 text-[10px] font-mono text-text-secondary">
+                  {index + 1}
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
 
         {/* Caption */}
         <p className="text-xs text-text-secondary mt-3 text-center font-mono uppercase tracking-wider">
-          {images.length} Frames
+          {isReordering
+            ? `Drag to reorder · click to drop · ${sequence.length - dropped.size} frames`
+            : `${images.length} Frames`}
         </p>
+
+        {canReorder && (
+          <div className="flex justify-center gap-3 mt-2">
+            {isReordering ? (
+              <>
+                <button
+                  className="text-xs text-text-muted hover:text-text-primary transition-colors"
+                  onClick={() => setIsReordering(false)}
+                >
+                  Cancel
+                </button>
+                <button
+                  className="text-xs text-accent hover:text-accent/80 transition-colors disabled:opacity-50"
+                  onClick={applyReorder}
+                  disabled={sequence.length - dropped.size < 2}
+                >
+                  Use this order
+                </button>
+              </>
+            ) : (
+              <button
+                className="text-xs text-text-muted hover:text-text-primary transition-colors"
+                onClick={startReorder}
+              >
+                Reorder frames
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Lightbox */}
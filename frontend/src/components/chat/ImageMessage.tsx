@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import type { ImageMessage as ImageMessageType } from '../../lib/types';
+import { getImageSlot, proposeAction, uploadImages } from '../../lib/api';
+import { MaskEditor } from './MaskEditor';
 
 interface ImageMessageProps {
   message: ImageMessageType;
@@ -9,6 +11,9 @@ interface ImageMessageProps {
 export function ImageMessage({ message }: ImageMessageProps) {
   const [isLoaded, setIsLoaded] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  // Hero, contact sheet and frames can be edited locally (edit_image)
+  const editable = getImageSlot(message.src);
 
   const handleDownload = useCallback(() => {
     const link = document.createElement('a');
@@ -18,19 +23,38 @@ export function ImageMessage({ message }: ImageMessageProps) {
     link.click();
   }, [message.src]);
 
+  const closeLightbox = useCallback(() => {
+    setIsExpanded(false);
+    setIsEditing(false);
+  }, []);
+
+  // Mask goes up as an upload; the edit arrives as an ActionCard to review and run
+  const handleEditSubmit = useCallback(async (mask: Blob, prompt: string) => {
+    if (!editable) return;
+    const upload = await uploadImages([new File([mask], `mask-${editable.slot}.png`, { type: 'image/png' })]);
+    await proposeAction(
+      editable.sessionId,
+      'edit_image',
+      // A stored version is edited as shown, not the slot's current file
+      { target: editable.slot, version: editable.version, prompt, mask: upload.files[0].path },
+      `Edit ${editable.slot}${editable.version ? ` (v${editable.version})` : ''}: ${prompt}`
+    );
+    closeLightbox();
+  }, [editable, closeLightbox]);
+
   // Keyboard support for lightbox
   useEffect(() => {
     if (!isExpanded) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        setIsExpanded(false);
+        closeLightbox();
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isExpanded]);
+  }, [isExpanded, closeLightbox]);
 
   return (
     <div className="flex justify-start">
@@ -77,19 +101,49 @@ export function ImageMessage({ message }: ImageMessageProps) {
           animate={{ opacity: 1 }}
           exit={{ opacity: 0 }}
           className="fixed inset-0 z-50 bg-background/95 flex items-center justify-center p-4"
-          onClick={() => setIsExpanded(false)}
+          onClick={closeLightbox}
         >
-          <motion.img
-            initial={{ scale: 0.9 }}
-            animate={{ scale: 1 }}
-            src={message.src}
-            alt={message.caption || 'Generated image'}
-            className="max-w-full max-h-full object-contain rounded-lg"
-            onClick={(e) => e.stopPropagation()}
-          />
+          {isEditing ? (
+            <MaskEditor
+              src={message.src}
+              alt={message.caption}
+              onSubmit={handleEditSubmit}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <motion.img
+              initial={{ scale: 0.9 }}
+              animate={{ scale: 1 }}
+              src={message.src}
+              alt={message.caption || 'Generated image'}
+              className="max-w-full max-h-full object-contain rounded-lg"
+              onClick={(e) => e.stopPropagation()}
+            />
+          )}
 
           {/* Top right controls */}
           <div className="absolute top-4 right-4 flex items-center gap-3">
+            {/* Edit button: paint a mask and describe the change */}
+            {editable && !isEditing && (
+              <button
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-surface/80 text-text-secondary hover:text-text-primary hover:bg-surface transition-colors"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setIsEditing(true);
+                }}
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                  />
+                </svg>
+                <span className="text-sm">Edit</span>
+              </button>
+            )}
+
             {/* Download button */}
             <button
               className="flex items-center gap-2 px-3 py-2 rounded-lg bg-surface/80 text-text-secondary hover:text-text-primary hover:bg-surface transition-colors"
@@ -112,7 +166,7 @@ export function ImageMessage({ message }: ImageMessageProps) {
             {/* Close button */}
             <button
               className="p-2 rounded-lg bg-surface/80 text-text-secondary hover:text-text-primary hover:bg-surface transition-colors"
-              onClick={() => setIsExpanded(false)}
+              onClick={closeLightbox}
             >
               <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path
@@ -126,7 +180,7 @@ export function ImageMessage({ message }: ImageMessageProps) {
           </div>
 
           {/* Caption */}
-          {message.caption && (
+          {message.caption && !isEditing && (
             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg bg-surface/80 text-text-secondary text-sm">
               {message.caption}
             </div>
@@ -0,0 +1,180 @@
+import { useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  src: string;
+  alt?: string;
+  // Mask is a white-on-black PNG at the image's natural size; white is the area to change
+  onSubmit: (mask: Blob, prompt: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const BRUSH_SIZES = [12, 24, 48, 96];
+
+export function MaskEditor({ src, alt, onSubmit, onCancel }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [isPainting, setIsPainting] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Canvas matches the image's natural size so the mask lines up pixel for pixel
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvas(e);
+    const from = lastPoint.current ?? { x, y };
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // Painted pixels become white, everything else black
+  const exportMask = (): Promise<Blob | null> => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return Promise.resolve(null);
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const mask = new ImageData(canvas.width, canvas.height);
+    for (let i = 0; i < painted.data.length; i += 4) {
+      const value = painted.data[i + 3] > 0 ? 255 : 0;
+      mask.data[i] = value;
+      mask.data[i + 1] = value;
+      mask.data[i + 2] = value;
+      mask.data[i + 3] = 255;
+    }
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    output.getContext('2d')?.putImageData(mask, 0, 0);
+    return new Promise((resolve) => output.toBlob(resolve, 'image/png'));
+  };
+
+  const handleSubmit = async () => {
+    if (!hasMask || !prompt.trim()) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const mask = await exportMask();
+      if (!mask) throw new Error('Could not read the painted mask');
+      await onSubmit(mask, prompt.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to propose the edit');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 max-w-full max-h-full" onClick={(e) => e.stopPropagation()}>
+      <div className="relative max-w-full">
+        <img
+          src={src}
+          alt={alt || 'Image to edit'}
+          className="block max-w-full max-h-[70vh] object-contain rounded-lg select-none"
+          draggable={false}
+          onLoad={handleImageLoad}
+        />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setIsPainting(true);
+            lastPoint.current = null;
+            paint(e);
+          }}
+          onPointerMove={(e) => {
+            if (isPainting) paint(e);
+          }}
+          onPointerUp={() => setIsPainting(false)}
+          onPointerCancel={() => setIsPainting(false)}
+        />
+      </div>
+
+      <div className="w-full max-w-2xl flex flex-col gap-2 p-3 rounded-lg bg-surface/90">
+        <div className="flex items-center gap-2 text-xs text-text-secondary">
+          <span>Brush</span>
+          {BRUSH_SIZES.map((size) => (
+            <button
+              key={size}
+              className={`px-2 py-1 rounded ${brushSize === size ? 'bg-accent text-background' : 'bg-surface-elevated hover:text-text-primary'}`}
+              onClick={() => setBrushSize(size)}
+            >
+              {size}px
+            </button>
+          ))}
+          <button
+            className="ml-auto px-2 py-1 rounded bg-surface-elevated hover:text-text-primary disabled:opacity-50"
+            onClick={clearMask}
+            disabled={!hasMask || isSubmitting}
+          >
+            Clear
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+          }}
+          placeholder={hasMask ? 'What should change in the painted area?' : 'Paint over the area to change'}
+          className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-2 text-sm text-text-primary
+                     focus:outline-none focus:ring-2 focus:ring-accent/50 focus:border-accent/50"
+        />
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            className="flex-1 bg-accent hover:bg-accent/90 text-background font-medium py-2 px-4 rounded-lg text-sm disabled:opacity-50"
+            onClick={handleSubmit}
+            disabled={!hasMask || !prompt.trim() || isSubmitting}
+          >
+            {isSubmitting ? 'Proposing...' : 'Propose Edit'}
+          </button>
+          <button
+            className="px-4 py-2 rounded-lg bg-surface-elevated text-text-secondary hover:text-text-primary text-sm"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
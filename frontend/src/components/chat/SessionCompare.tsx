@@ -0,0 +1,325 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import type { AssetVersion, ComparedSession } from '../../lib/types';
+import { compareSessions, listAssetVersions, getOutputUrl, getSessionTitle } from '../../lib/api';
+import { VideoMessage } from './VideoMessage';
+
+interface SessionCompareProps {
+  sessionId: string;
+  sessionIds: string[];
+  onClose: () => void;
+}
+
+// Param slots in pipeline order, with the labels used for the diff table
+const PARAM_SLOTS: Array<{ slot: string; label: string }> = [
+  { slot: 'hero', label: 'Hero' },
+  { slot: 'contactSheet', label: 'Contact Sheet' },
+  { slot: 'frame-1', label: 'Frames' },
+  { slot: 'video-1', label: 'Clips' },
+  { slot: 'finalVideo', label: 'Final Video' },
+];
+
+type SyncAction = 'play' | 'pause' | 'seek';
+
+type SessionVersions = Awaited<ReturnType<typeof listAssetVersions>>;
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+export function SessionCompare({ sessionId, sessionIds, onClose }: SessionCompareProps) {
+  const [sessions, setSessions] = useState<ComparedSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllParams, setShowAllParams] = useState(false);
+  // Versions per session, and the version picked per `${sessionId}:${slot}` (unset = active)
+  const [versions, setVersions] = useState<Record<string, SessionVersions>>({});
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, number>>({});
+
+  // Final videos play, pause and seek together
+  const videoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
+  // Events a follower is about to fire because of the sync itself; each is skipped once when it
+  // arrives, so followers don't echo back to the leader
+  const expectedEventsRef = useRef<Map<HTMLVideoElement, Set<SyncAction>>>(new Map());
+
+  useEffect(() => {
+    compareSessions(sessionId, sessionIds)
+      .then((response) => {
+        setSessions(response.sessions);
+        return Promise.all(response.sessions.map((session) =>
+          listAssetVersions(session.id).then((list) => [session.id, list] as const)
+        ));
+      })
+      .then((lists) => setVersions(Object.fromEntries(lists)))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sessions'));
+  }, [sessionId, sessionIds]);
+
+  const expectEvent = (video: HTMLVideoElement, action: SyncAction) => {
+    const expected = expectedEventsRef.current.get(video) ?? new Set<SyncAction>();
+    expected.add(action);
+    expectedEventsRef.current.set(video, expected);
+  };
+
+  const playFollower = (video: HTMLVideoElement) => {
+    if (!video.paused) return;
+    expectEvent(video, 'play');
+    // A rejected play() fires no play event to consume
+    video.play().catch(() => expectedEventsRef.current.get(video)?.delete('play'));
+  };
+
+  const syncVideos = (source: HTMLVideoElement, action: SyncAction) => {
+    if (expectedEventsRef.current.get(source)?.delete(action)) return;
+    for (const video of videoRefs.current.values()) {
+      if (video === source) continue;
+      if (Math.abs(video.currentTime - source.currentTime) > 0.1) {
+        expectEvent(video, 'seek');
+        video.currentTime = Math.min(source.currentTime, video.duration || source.currentTime);
+      }
+      if (action === 'play') playFollower(video);
+      if (action === 'pause' && !video.paused) {
+        expectEvent(video, 'pause');
+        video.pause();
+      }
+    }
+  };
+
+  const restartAll = () => {
+    for (const video of videoRefs.current.values()) {
+      expectEvent(video, 'seek');
+      video.currentTime = 0;
+      playFollower(video);
+    }
+  };
+
+  const setVideoRef = (id: string) => (video: HTMLVideoElement | null) => {
+    if (video) {
+      videoRefs.current.set(id, video);
+    } else {
+      videoRefs.current.delete(id);
+    }
+  };
+
+  // The version picked for a slot, when it isn't the active one
+  const getSelectedVersion = (session: ComparedSession, slot: string): AssetVersion | undefined => {
+    const picked = selectedVersions[`${session.id}:${slot}`];
+    return picked === undefined ? undefined : versions[session.id]?.versions[slot]?.find((v) => v.version === picked);
+  };
+
+  const getSlotParams = (session: ComparedSession, slot: string) =>
+    getSelectedVersion(session, slot)?.params ?? session.params[slot]?.params;
+
+  // Asset of a single-file slot: the picked version's file, else the session's active one
+  const getSlotAsset = (session: ComparedSession, slot: 'hero' | 'contactSheet' | 'finalVideo') =>
+    getSelectedVersion(session, slot)?.path ?? session.assets[slot];
+
+  // Param rows per stage; rows where every side agrees are hidden unless "show all"
+  const paramRows = PARAM_SLOTS.map(({ slot, label }) => {
+    const keys = new Set<string>();
+    sessions.forEach((session) => Object.keys(getSlotParams(session, slot) || {}).forEach((key) => keys.add(key)));
+    const rows = Array.from(keys).map((key) => {
+      const values = sessions.map((session) => getSlotParams(session, slot)?.[key]);
+      const differs = values.some((value) => JSON.stringify(value) !== JSON.stringify(values[0]));
+      return { key, values, differs };
+    });
+    return { slot, label, rows: rows.filter((row) => showAllParams || row.differs) };
+  }).filter((stage) => stage.rows.length > 0);
+
+  const columns = { gridTemplateColumns: `repeat(${Math.max(sessions.length, 1)}, minmax(0, 1fr))` };
+  const hasFinalVideos = sessions.some((session) => getSlotAsset(session, 'finalVideo'));
+
+  const renderRow = (label: string, render: (session: ComparedSession) => React.ReactNode) => (
+    <section className="space-y-2">
+      <h3 className="text-xs font-medium text-text-secondary">{label}</h3>
+      <div className="grid gap-3" style={columns}>
+        {sessions.map((session) => (
+          <div key={session.id} className="min-w-0">
+            {render(session)}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+
+  // Version picker for a slot; only shown when the session has more than one version of it
+  const renderVersionPicker = (session: ComparedSession, slot: string) => {
+    const list = versions[session.id];
+    const slotVersions = list?.versions[slot] || [];
+    if (slotVersions.length < 2) return null;
+    const key = `${session.id}:${slot}`;
+    const active = list.activeVersions[slot];
+    return (
+      <select
+        value={selectedVersions[key] ?? active ?? ''}
+        onChange={(e) => setSelectedVersions((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+        className="mb-1 bg-surface-elevated border border-border/50 rounded px-1.5 py-0.5 text-[10px] text-text-secondary"
+      >
+        {slotVersions.map((version) => (
+          <option key={version.version} value={version.version}>
+            v{version.version}{version.version === active ? ' (active)' : ''}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  const missing = <div className="aspect-[3/2] rounded bg-surface-elevated flex items-center justify-center text-[10px] text-text-muted">Not generated</div>;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-background/95 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-surface border border-border/50 rounded-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+          <h2 className="font-medium text-text-primary">Compare Variants</h2>
+          <button
+            className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-3 text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">{error}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {/* Session titles */}
+          <div className="grid gap-3" style={columns}>
+            {sessions.map((session) => (
+              <p key={session.id} className="text-sm font-medium text-text-primary truncate">
+                {getSessionTitle(session)}
+              </p>
+            ))}
+          </div>
+
+          {renderRow('Hero', (session) => {
+            const hero = getSlotAsset(session, 'hero');
+            return (
+              <>
+                {renderVersionPicker(session, 'hero')}
+                {hero ? <img src={getOutputUrl(hero, session.id)} alt="Hero" className="w-full rounded" /> : missing}
+              </>
+            );
+          })}
+
+          {renderRow('Contact Sheet', (session) => {
+            const contactSheet = getSlotAsset(session, 'contactSheet');
+            return (
+              <>
+                {renderVersionPicker(session, 'contactSheet')}
+                {contactSheet ? (
+                  <img src={getOutputUrl(contactSheet, session.id)} alt="Contact sheet" className="w-full rounded" />
+                ) : missing}
+              </>
+            );
+          })}
+
+          {renderRow('Frames', (session) =>
+            session.assets.frames.length > 0 ? (
+              <div className="grid grid-cols-3 gap-1">
+                {session.assets.frames.map((frame, idx) => (
+                  <img
+                    key={frame}
+                    src={getOutputUrl(frame, session.id)}
+                    alt={`Frame ${idx + 1}`}
+                    className="w-full aspect-square object-cover rounded"
+                  />
+                ))}
+              </div>
+            ) : missing
+          )}
+
+          {hasFinalVideos && (
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-medium text-text-secondary">Final Video</h3>
+                <button
+                  onClick={restartAll}
+                  className="text-xs text-accent hover:text-accent/80 transition-colors"
+                >
+                  Play all from start
+                </button>
+              </div>
+              <div className="grid gap-3" style={columns}>
+                {sessions.map((session) => {
+                  const finalVideo = getSlotAsset(session, 'finalVideo');
+                  const version = getSelectedVersion(session, 'finalVideo');
+                  const shown = version ?? versions[session.id]?.versions.finalVideo?.find(
+                    (v) => v.version === versions[session.id]?.activeVersions.finalVideo
+                  );
+                  return (
+                    <div key={session.id} className="min-w-0">
+                      {renderVersionPicker(session, 'finalVideo')}
+                      {finalVideo ? (
+                        <VideoMessage
+                          message={{
+                            id: `${session.id}-finalVideo`,
+                            role: 'assistant',
+                            type: 'video',
+                            src: getOutputUrl(finalVideo, session.id),
+                            label: version ? `Final Video (v${version.version})` : 'Final Video',
+                            timestamp: new Date(shown?.createdAt ?? session.lastActive),
+                          }}
+                          inline
+                          videoRef={setVideoRef(session.id)}
+                          onPlay={(video) => syncVideos(video, 'play')}
+                          onPause={(video) => syncVideos(video, 'pause')}
+                          onSeeked={(video) => syncVideos(video, 'seek')}
+                        />
+                      ) : missing}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
+          {/* Param diff */}
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-medium text-text-secondary">Parameters</h3>
+              <label className="flex items-center gap-1.5 text-xs text-text-muted cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showAllParams}
+                  onChange={(e) => setShowAllParams(e.target.checked)}
+                  className="w-3.5 h-3.5 rounded border-border bg-surface-elevated text-accent"
+                />
+                Show unchanged
+              </label>
+            </div>
+
+            {paramRows.length === 0 ? (
+              <p className="text-xs text-text-muted">No parameter differences.</p>
+            ) : (
+              paramRows.map((stage) => (
+                <div key={stage.slot} className="bg-surface-elevated rounded-lg p-3 text-xs space-y-1">
+                  <p className="text-text-secondary font-medium">{stage.label}</p>
+                  {stage.rows.map((row) => (
+                    <div key={row.key} className="grid gap-3" style={columns}>
+                      {row.values.map((value, idx) => (
+                        <p
+                          key={idx}
+                          className={`break-words ${row.differs ? 'text-text-primary' : 'text-text-muted'}`}
+                        >
+                          <span className={row.differs ? 'text-accent' : ''}>{row.key}</span>: {formatValue(value)}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </section>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
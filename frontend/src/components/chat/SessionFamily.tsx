@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { SessionFamily as SessionFamilyData, SessionFamilyMember, WorkflowSummary } from '../../lib/types';
+import { getSessionFamily, forkSession, getOutputUrl, getSessionTitle } from '../../lib/api';
+
+interface SessionFamilyProps {
+  sessionId: string;
+  workflows: WorkflowSummary[];
+  onOpenSession: (session: SessionFamilyMember, intro: string) => void;
+  onCompare: (sessionIds: string[]) => void;
+  onClose: () => void;
+}
+
+export function SessionFamily({ sessionId, workflows, onOpenSession, onCompare, onClose }: SessionFamilyProps) {
+  const [family, setFamily] = useState<SessionFamilyData | null>(null);
+  const [stage, setStage] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [isForking, setIsForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const loadFamily = useCallback(
+    () =>
+      getSessionFamily(sessionId)
+        .then((response) => setFamily({ baseSession: response.baseSession, forks: response.forks }))
+        .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load variants')),
+    [sessionId]
+  );
+
+  useEffect(() => {
+    loadFamily();
+  }, [loadFamily]);
+
+  // Required stages of the session's workflow, in pipeline order
+  const workflow = workflows.find((w) => w.id === family?.baseSession.workflowId);
+  const stages = workflow?.stages.filter((s) => !s.optional) || [];
+  const selectedStage = stage || stages[0]?.id || '';
+
+  const openMember = (member: SessionFamilyMember) => {
+    const intro = member.isFork
+      ? `Switched to variant "${getSessionTitle(member)}" (forked at ${member.forkStage}).`
+      : 'Switched to the original session.';
+    onOpenSession(member, intro);
+    onClose();
+  };
+
+  const handleFork = async () => {
+    if (!selectedStage) return;
+    setIsForking(true);
+    setError(null);
+    try {
+      const response = await forkSession(sessionId, selectedStage, purpose);
+      setPurpose('');
+      const updated = await getSessionFamily(sessionId);
+      setFamily({ baseSession: updated.baseSession, forks: updated.forks });
+      const fork = updated.forks.find((member) => member.id === response.session.id);
+      if (fork) openMember(fork);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fork session');
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id]));
+  };
+
+  const members = family ? [family.baseSession, ...family.forks] : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-background/95 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-surface border border-border/50 rounded-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+          <h2 className="font-medium text-text-primary">Variants</h2>
+          <div className="flex items-center gap-4">
+            <button
+              className="text-accent hover:text-accent/80 transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              onClick={() => onCompare(compareIds)}
+              disabled={compareIds.length < 2}
+            >
+              Compare{compareIds.length > 0 ? ` (${compareIds.length})` : ''}
+            </button>
+            <button
+              className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-3 text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">{error}</p>
+        )}
+
+        {/* Fork form */}
+        <div className="flex flex-wrap items-end gap-2 px-4 py-3 border-b border-border/50">
+          <label className="text-xs text-text-secondary space-y-1">
+            <span className="block">Keep assets up to</span>
+            <select
+              value={selectedStage}
+              onChange={(e) => setStage(e.target.value)}
+              disabled={isForking || stages.length === 0}
+              className="bg-surface-elevated border border-border/50 rounded-lg px-3 py-1.5 text-sm text-text-primary
+                         focus:outline-none focus:ring-2 focus:ring-accent/50"
+            >
+              {stages.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label || s.id}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex-1 min-w-[12rem] text-xs text-text-secondary space-y-1">
+            <span className="block">Purpose</span>
+            <input
+              type="text"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+              placeholder="e.g. outdoor-urban background"
+              disabled={isForking}
+              className="w-full bg-surface-elevated border border-border/50 rounded-lg px-3 py-1.5 text-sm text-text-primary
+                         placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent/50"
+            />
+          </label>
+          <button
+            onClick={handleFork}
+            disabled={isForking || !selectedStage}
+            className="bg-accent hover:bg-accent/90 text-background font-medium text-sm py-1.5 px-4 rounded-lg
+                       transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isForking ? 'Forking...' : 'Fork'}
+          </button>
+        </div>
+
+        {/* Family members */}
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {members.map((member) => {
+            const isCurrent = member.id === sessionId;
+            return (
+              <div
+                key={member.id}
+                className={`rounded-lg border overflow-hidden ${isCurrent ? 'border-accent/50' : 'border-border/50'}`}
+              >
+                <button
+                  onClick={() => openMember(member)}
+                  disabled={isCurrent}
+                  className="block w-full aspect-[3/2] bg-surface-elevated disabled:cursor-default"
+                  aria-label={`Open ${getSessionTitle(member)}`}
+                >
+                  {member.hero && (
+                    <img
+                      src={getOutputUrl(member.hero, member.id)}
+                      alt={getSessionTitle(member)}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </button>
+                <div className="p-2 text-xs space-y-0.5">
+                  <p className="text-text-primary font-medium truncate">
+                    {getSessionTitle(member)}
+                    {isCurrent && <span className="text-accent ml-2">Current</span>}
+                  </p>
+                  <p className="text-text-muted">
+                    {member.currentStage} · {member.progress}%
+                  </p>
+                  <label className="flex items-center gap-1.5 pt-1 text-text-secondary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(member.id)}
+                      onChange={() => toggleCompare(member.id)}
+                      className="w-3.5 h-3.5 rounded border-border bg-surface-elevated text-accent"
+                    />
+                    Compare
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import type { AssetVersion, ParamChange } from '../../lib/types';
+import { listAssetVersions, diffAssetVersions, promoteAssetVersion, getOutputUrl } from '../../lib/api';
+
+interface VersionHistoryProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+// Display order for pipeline slots; frame-N / video-N sort numerically after these
+const SLOT_ORDER = ['hero', 'contactSheet', 'frame', 'video', 'finalVideo'];
+
+function slotLabel(slot: string): string {
+  const labels: Record<string, string> = {
+    hero: 'Hero',
+    contactSheet: 'Contact Sheet',
+    finalVideo: 'Final Video',
+  };
+  const match = /^(frame|video)-(\d+)$/.exec(slot);
+  if (match) {
+    return `${match[1] === 'frame' ? 'Frame' : 'Clip'} ${match[2]}`;
+  }
+  return labels[slot] || slot;
+}
+
+function compareSlots(a: string, b: string): number {
+  const rank = (slot: string) => SLOT_ORDER.indexOf(slot.split('-')[0]);
+  const num = (slot: string) => Number(slot.split('-')[1] || 0);
+  return rank(a) - rank(b) || num(a) - num(b);
+}
+
+const isVideo = (path: string) => /\.(mp4|webm|mov)$/i.test(path);
+
+export function VersionHistory({ sessionId, onClose }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<Record<string, AssetVersion[]>>({});
+  const [activeVersions, setActiveVersions] = useState<Record<string, number>>({});
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [compare, setCompare] = useState<number[]>([]);
+  const [changes, setChanges] = useState<Record<string, ParamChange> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyVersions = useCallback((response: Awaited<ReturnType<typeof listAssetVersions>>) => {
+    setVersions(response.versions);
+    setActiveVersions(response.activeVersions);
+    setSelectedSlot((prev) => prev ?? Object.keys(response.versions).sort(compareSlots)[0] ?? null);
+  }, []);
+
+  const handleError = (fallback: string) => (err: unknown) => {
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  useEffect(() => {
+    listAssetVersions(sessionId)
+      .then(applyVersions)
+      .catch(handleError('Failed to load versions'));
+  }, [sessionId, applyVersions]);
+
+  const selectSlot = (slot: string) => {
+    setSelectedSlot(slot);
+    setCompare([]);
+    setChanges(null);
+  };
+
+  // Diff once two versions are picked
+  const toggleCompare = (version: number) => {
+    const next = compare.includes(version)
+      ? compare.filter((v) => v !== version)
+      : [...compare, version].slice(-2);
+    setCompare(next);
+    setChanges(null);
+
+    if (selectedSlot && next.length === 2) {
+      const [from, to] = [...next].sort((a, b) => a - b);
+      diffAssetVersions(sessionId, selectedSlot, from, to)
+        .then((response) => setChanges(response.changes))
+        .catch(handleError('Failed to diff versions'));
+    }
+  };
+
+  const handlePromote = async (slot: string, version: number) => {
+    try {
+      await promoteAssetVersion(sessionId, slot, version);
+      applyVersions(await listAssetVersions(sessionId));
+    } catch (err) {
+      handleError('Failed to promote version')(err);
+    }
+  };
+
+  const slots = Object.keys(versions).sort(compareSlots);
+  const slotVersions = selectedSlot ? [...(versions[selectedSlot] || [])].reverse() : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-background/95 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-surface border border-border/50 rounded-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+          <h2 className="font-medium text-text-primary">Version History</h2>
+          <button
+            className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-4 mt-3 text-xs text-red-400 bg-red-400/10 px-2 py-1 rounded">{error}</p>
+        )}
+
+        {slots.length === 0 ? (
+          <p className="p-6 text-sm text-text-secondary text-center">No generated assets yet.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Slot list */}
+            <div className="w-40 shrink-0 border-r border-border/50 overflow-y-auto py-2">
+              {slots.map((slot) => (
+                <button
+                  key={slot}
+                  onClick={() => selectSlot(slot)}
+                  className={`w-full text-left px-4 py-1.5 text-sm transition-colors ${
+                    slot === selectedSlot ? 'text-accent bg-accent/10' : 'text-text-secondary hover:text-text-primary'
+                  }`}
+                >
+                  {slotLabel(slot)}
+                  <span className="text-text-muted text-xs ml-1">({versions[slot].length})</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Versions of the selected slot */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              <p className="text-[10px] text-text-muted">Select two versions to compare their parameters.</p>
+
+              {changes && selectedSlot && (
+                <div className="grid grid-cols-2 gap-3">
+                  {[...compare].sort((a, b) => a - b).map((number) => {
+                    const version = versions[selectedSlot]?.find((v) => v.version === number);
+                    if (!version) return null;
+                    return (
+                      <div key={number} className="space-y-1">
+                        {isVideo(version.path) ? (
+                          <video src={getOutputUrl(version.path, sessionId)} className="w-full rounded" controls muted loop />
+                        ) : (
+                          <img src={getOutputUrl(version.path, sessionId)} alt={`v${number}`} className="w-full rounded" />
+                        )}
+                        <p className="text-[10px] text-text-muted text-center">v{number}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {changes && (
+                <div className="bg-surface-elevated rounded-lg p-3 text-xs space-y-1">
+                  <p className="text-text-secondary font-medium">
+                    v{Math.min(...compare)} → v{Math.max(...compare)}
+                  </p>
+                  {Object.keys(changes).length === 0 ? (
+                    <p className="text-text-muted">Same parameters</p>
+                  ) : (
+                    Object.entries(changes).map(([key, change]) => (
+                      <p key={key} className="text-text-secondary break-words">
+                        <span className="text-text-primary">{key}</span>: {JSON.stringify(change.from)} →{' '}
+                        {JSON.stringify(change.to)}
+                      </p>
+                    ))
+                  )}
+                </div>
+              )}
+
+              {slotVersions.map((version) => {
+                const isActive = selectedSlot !== null && activeVersions[selectedSlot] === version.version;
+                return (
+                  <div
+                    key={version.version}
+                    className={`flex gap-3 p-2 rounded-lg border ${isActive ? 'border-accent/50' : 'border-border/50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={compare.includes(version.version)}
+                      onChange={() => toggleCompare(version.version)}
+                      className="mt-1 w-4 h-4 rounded border-border bg-surface-elevated text-accent"
+                      aria-label={`Compare version ${version.version}`}
+                    />
+                    {isVideo(version.path) ? (
+                      <video src={getOutputUrl(version.path, sessionId)} className="w-24 h-24 object-cover rounded" muted />
+                    ) : (
+                      <img src={getOutputUrl(version.path, sessionId)} alt={`v${version.version}`} className="w-24 h-24 object-cover rounded" />
+                    )}
+                    <div className="flex-1 min-w-0 text-xs">
+                      <p className="text-text-primary font-medium">
+                        v{version.version}
+                        {isActive && <span className="text-accent ml-2">Active</span>}
+                      </p>
+                      <p className="text-text-muted">
+                        {version.templateId} · {new Date(version.createdAt).toLocaleString()}
+                      </p>
+                      {version.prompt && (
+                        <p className="text-text-secondary mt-1 line-clamp-2">{version.prompt}</p>
+                      )}
+                    </div>
+                    {!isActive && selectedSlot && (
+                      <button
+                        onClick={() => handlePromote(selectedSlot, version.version)}
+                        className="self-start text-xs text-accent hover:text-accent/80 transition-colors"
+                      >
+                        Make active
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
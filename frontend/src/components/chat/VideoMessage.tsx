@@ -4,10 +4,16 @@ import type { VideoMessage as VideoMessageType } from '../../lib/types';
 
 interface VideoMessageProps {
   message: VideoMessageType;
+  // Inline players (e.g. the comparison view) play in place with native controls instead of opening the lightbox
+  inline?: boolean;
+  videoRef?: (video: HTMLVideoElement | null) => void;
+  onPlay?: (video: HTMLVideoElement) => void;
+  onPause?: (video: HTMLVideoElement) => void;
+  onSeeked?: (video: HTMLVideoElement) => void;
 }
 
-export function VideoMessage({ message }: VideoMessageProps) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+export function VideoMessage({ message, inline = false, videoRef: onVideoRef, onPlay, onPause, onSeeked }: VideoMessageProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
   const lightboxVideoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
@@ -40,7 +46,13 @@ export function VideoMessage({ message }: VideoMessageProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isLightboxOpen]);
 
+  const setThumbnailRef = (video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    onVideoRef?.(video);
+  };
+
   const openLightbox = () => {
+    if (inline) return;
     setIsLightboxOpen(true);
     // Pause thumbnail video
     if (videoRef.current) {
@@ -104,35 +116,39 @@ export function VideoMessage({ message }: VideoMessageProps) {
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="film-frame p-3 cursor-pointer group"
+            className={`film-frame p-3 group ${inline ? '' : 'cursor-pointer'}`}
             onClick={openLightbox}
           >
             <div className="relative bg-surface-elevated rounded overflow-hidden">
               <video
-                ref={videoRef}
+                ref={setThumbnailRef}
                 src={message.src}
                 poster={message.poster}
                 className="w-full h-full object-cover"
                 playsInline
                 muted
-                loop
+                loop={!inline}
+                controls={inline}
+                onPlay={(e) => onPlay?.(e.currentTarget)}
+                onPause={(e) => onPause?.(e.currentTarget)}
+                onSeeked={(e) => onSeeked?.(e.currentTarget)}
               />
 
               {/* Play overlay - click to open lightbox */}
-              <div className="absolute inset-0 flex items-center justify-center bg-background/30 group-hover:bg-background/40 transition-colors">
+              {!inline && <div className="absolute inset-0 flex items-center justify-center bg-background/30 group-hover:bg-background/40 transition-colors">
                 <div className="flex items-center justify-center w-14 h-14 rounded-full bg-accent/90 group-hover:bg-accent transition-colors">
                   <svg className="w-7 h-7 text-background ml-1" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M8 5v14l11-7z" />
                   </svg>
                 </div>
-              </div>
+              </div>}
 
               {/* Expand icon */}
-              <div className="absolute top-2 right-2 p-1.5 rounded bg-background/50 opacity-0 group-hover:opacity-100 transition-opacity">
+              {!inline && <div className="absolute top-2 right-2 p-1.5 rounded bg-background/50 opacity-0 group-hover:opacity-100 transition-opacity">
                 <svg className="w-4 h-4 text-text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
                 </svg>
-              </div>
+              </div>}
             </div>
           </motion.div>
 
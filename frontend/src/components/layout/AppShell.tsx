@@ -4,9 +4,11 @@ import { motion } from 'framer-motion';
 interface AppShellProps {
   children: ReactNode;
   onReset?: () => void;
+  onShowHistory?: () => void;
+  onShowFamily?: () => void;
 }
 
-export function AppShell({ children, onReset }: AppShellProps) {
+export function AppShell({ children, onReset, onShowHistory, onShowFamily }: AppShellProps) {
   return (
     <div className="flex flex-col min-h-screen bg-background">
       {/* Header */}
@@ -20,14 +22,32 @@ export function AppShell({ children, onReset }: AppShellProps) {
             Fashion Shoot Agent
           </motion.h1>
 
-          {onReset && (
-            <button
-              onClick={onReset}
-              className="text-text-secondary hover:text-text-primary transition-colors text-sm"
-            >
-              New Session
-            </button>
-          )}
+          <div className="flex items-center gap-4">
+            {onShowFamily && (
+              <button
+                onClick={onShowFamily}
+                className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+              >
+                Variants
+              </button>
+            )}
+            {onShowHistory && (
+              <button
+                onClick={onShowHistory}
+                className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+              >
+                History
+              </button>
+            )}
+            {onReset && (
+              <button
+                onClick={onReset}
+                className="text-text-secondary hover:text-text-primary transition-colors text-sm"
+              >
+                New Session
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -17,8 +17,9 @@ import type {
   PresetSelection,
   MessageRole,
   ContentBlock,
+  WorkflowSummary,
 } from '../lib/types';
-import { uploadImages } from '../lib/api';
+import { uploadImages, listWorkflows, getOutputUrl } from '../lib/api';
 
 // WebSocket message types from server
 interface WSServerMessage {
@@ -79,6 +80,9 @@ interface WebSocketState {
   pendingAction: ActionMessage | null;  // Current action awaiting user execution
   executingActionId: string | null;     // Instance ID of action being executed
   awaitingContinuation: boolean;        // True after action completes, waiting for user
+  // Workflow selection (applies when a new session is created)
+  workflows: WorkflowSummary[];
+  workflowId: string | null;
 }
 
 // Block accumulator for tracking streaming blocks
@@ -121,6 +125,8 @@ const initialState: WebSocketState = {
   pendingAction: null,
   executingActionId: null,
   awaitingContinuation: false,
+  workflows: [],
+  workflowId: null,
 };
 
 // Map tool names to user-friendly activity labels
@@ -437,7 +443,7 @@ export function useWebSocket() {
 
   // Helper: Add image/video messages from checkpoint artifacts
   const addArtifactMessages = useCallback(
-    (checkpoint: Checkpoint) => {
+    (checkpoint: Checkpoint, sessionId?: string) => {
       const cacheBuster = `?t=${Date.now()}`;
 
       if (checkpoint.artifact) {
@@ -448,13 +454,13 @@ export function useWebSocket() {
           addMessage({
             role: 'assistant',
             type: 'video',
-            src: `/${artifactPath}${cacheBuster}`,
+            src: `${getOutputUrl(artifactPath, sessionId)}${cacheBuster}`,
           });
         } else {
           addMessage({
             role: 'assistant',
             type: 'image',
-            src: `/${artifactPath}${cacheBuster}`,
+            src: `${getOutputUrl(artifactPath, sessionId)}${cacheBuster}`,
             caption: checkpoint.stage === 'hero' ? 'Hero Image' : undefined,
           });
         }
@@ -468,13 +474,13 @@ export function useWebSocket() {
             addMessage({
               role: 'assistant',
               type: 'video',
-              src: `/${artifact}${cacheBuster}`,
+              src: `${getOutputUrl(artifact, sessionId)}${cacheBuster}`,
             });
           } else {
             addMessage({
               role: 'assistant',
               type: 'image',
-              src: `/${artifact}${cacheBuster}`,
+              src: `${getOutputUrl(artifact, sessionId)}${cacheBuster}`,
               caption: `Frame ${idx + 1}`,
             });
           }
@@ -637,7 +643,7 @@ export function useWebSocket() {
           // Claude will provide conversational feedback naturally (via orchestrator prompt)
           const progress = data.progress as Checkpoint;
           if (progress && (progress.artifact || progress.artifacts?.length)) {
-            addArtifactMessages(progress);
+            addArtifactMessages(progress, data.sessionId);
           }
           break;
         }
@@ -646,7 +652,7 @@ export function useWebSocket() {
           // Legacy checkpoint event - show artifacts only
           const checkpoint = data.checkpoint as Checkpoint;
           if (checkpoint) {
-            addArtifactMessages(checkpoint);
+            addArtifactMessages(checkpoint, data.sessionId);
           }
           break;
         }
@@ -751,7 +757,7 @@ export function useWebSocket() {
               addMessage({
                 role: 'assistant',
                 type: isVideo ? 'video' : 'image',
-                src: `/${result.artifact}${cacheBuster}`,
+                src: `${getOutputUrl(result.artifact, data.sessionId)}${cacheBuster}`,
               } as any);
             }
             if (result.artifacts && result.artifacts.length > 0) {
@@ -760,7 +766,7 @@ export function useWebSocket() {
                 addMessage({
                   role: 'assistant',
                   type: isVideo ? 'video' : 'image',
-                  src: `/${artifact}${cacheBuster}`,
+                  src: `${getOutputUrl(artifact, data.sessionId)}${cacheBuster}`,
                 } as any);
               });
             }
@@ -1029,9 +1035,11 @@ export function useWebSocket() {
         sessionId: state.sessionId,
         content: prompt,
         images: inputImages.length > 0 ? inputImages : undefined,
+        // Workflow is fixed once the session exists
+        workflowId: state.sessionId ? undefined : state.workflowId || undefined,
       });
     },
-    [state.sessionId, state.uploadedImages, addMessage, sendWS]
+    [state.sessionId, state.uploadedImages, state.workflowId, addMessage, sendWS]
   );
 
   // Continue session
@@ -1224,6 +1232,18 @@ export function useWebSocket() {
     }));
   }, []);
 
+  // Ask the agent to propose reorder_frames with the sequence picked in ImageGrid
+  const reorderFrames = useCallback(
+    (frameNumbers: number[]) => {
+      sendMessage(`Reorder the frames to ${frameNumbers.join(', ')} (propose reorder_frames with this order).`);
+    },
+    [sendMessage]
+  );
+
+  const selectWorkflow = useCallback((workflowId: string) => {
+    setState((prev) => ({ ...prev, workflowId }));
+  }, []);
+
   // Reset session
   const resetSession = useCallback(() => {
     streamingMessageIdRef.current = null;
@@ -1234,10 +1254,54 @@ export function useWebSocket() {
     setState((prev) => ({
       ...initialState,
       connectionState: prev.connectionState, // Keep connection state
+      workflows: prev.workflows,              // Keep workflow list and selection
+      workflowId: prev.workflowId,
       // Action state is reset via initialState
     }));
   }, []);
 
+  // Switch to another session (e.g. a fork) with a fresh chat view
+  const openSession = useCallback(
+    (session: { id: string; workflowId?: string; hero?: string }, intro?: string) => {
+      streamingMessageIdRef.current = null;
+      accumulatedTextRef.current = '';
+      thinkingHistoryRef.current = { segments: [] };
+      thinkingMessageIdRef.current = null;
+      blockAccumulatorRef.current = { blocks: new Map(), toolInputBuffers: new Map() };
+      setState((prev) => ({
+        ...initialState,
+        connectionState: prev.connectionState,
+        workflows: prev.workflows,
+        workflowId: session.workflowId || prev.workflowId,
+        sessionId: session.id,
+      }));
+      subscribeToSession(session.id);
+
+      if (intro) {
+        addMessage({ role: 'system', type: 'text', content: intro });
+      }
+      if (session.hero) {
+        addMessage({ role: 'assistant', type: 'image', src: getOutputUrl(session.hero, session.id), caption: 'Hero Image' });
+      }
+    },
+    [addMessage, subscribeToSession]
+  );
+
+  // Load available workflows once
+  useEffect(() => {
+    listWorkflows()
+      .then((response) => {
+        setState((prev) => ({
+          ...prev,
+          workflows: response.workflows,
+          workflowId: prev.workflowId || response.defaultWorkflowId,
+        }));
+      })
+      .catch((error) => {
+        console.error('[API] Failed to load workflows:', error);
+      });
+  }, []);
+
   // Store latest connect/disconnect in refs to avoid dependency issues
   const connectRef = useRef(connect);
   const disconnectRef = useRef(disconnect);
@@ -1266,9 +1330,12 @@ export function useWebSocket() {
     enableYoloMode,
     subscribeToSession,
     resetSession,
+    openSession,
     handleUpload,
     removeUploadedImage,
     updatePresets,
+    selectWorkflow,
+    reorderFrames,
     // Action Instance Pattern
     executeAction,
     continueAction,
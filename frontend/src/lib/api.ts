@@ -2,6 +2,14 @@ import type {
   SessionStats,
   PipelineState,
   UploadResponse,
+  WorkflowSummary,
+  AssetVersion,
+  ParamChange,
+  CostEstimateResponse,
+  SessionFamily,
+  SessionFamilyMember,
+  ComparedSession,
+  ActionResult,
 } from './types';
 
 const API_BASE = '/api';
@@ -24,6 +32,47 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return response.json();
 }
 
+// Output URLs - generated assets are served from /outputs/<sessionId>/...
+export function getOutputUrl(path: string, sessionId?: string | null): string {
+  // Absolute URLs and paths are used as-is
+  if (path.startsWith('/') || /^https?:\/\//.test(path)) {
+    return path;
+  }
+  // Agent-relative paths (outputs/<sessionId>/hero.png) already carry the session prefix
+  if (path.startsWith('outputs/')) {
+    return '/' + path;
+  }
+  // Otherwise the path is relative to the session's output dir
+  return sessionId ? `/outputs/${sessionId}/${path}` : `/outputs/${path}`;
+}
+
+// Speed-curve graph for a curve spec (easing name, x1,y1,x2,y2 or time:speed keyframes)
+export function getSpeedCurvePreviewUrl(curve: string, duration?: number): string {
+  const query = new URLSearchParams({ curve, format: 'svg' });
+  if (duration) query.set('duration', String(duration));
+  return `${API_BASE}/speed-curves/preview?${query}`;
+}
+
+// Session, editable slot and (for stored versions) version of an output image URL
+// (/outputs/<sessionId>/hero.png, contact-sheet.png, frames/frame-3.png, versions/<slot>/v2.png)
+export function getImageSlot(src: string): { sessionId: string; slot: string; version?: number } | null {
+  const match = /\/outputs\/([^/]+)\/(.+?)(?:\?.*)?$/.exec(src);
+  if (!match) return null;
+  const [, sessionId, file] = match;
+  const version = /^versions\/(hero|contactSheet|frame-\d+)\/v(\d+)\.\w+$/.exec(file);
+  if (version) return { sessionId, slot: version[1], version: Number(version[2]) };
+  if (/^hero\.\w+$/.test(file)) return { sessionId, slot: 'hero' };
+  if (/^contact-sheet\.\w+$/.test(file)) return { sessionId, slot: 'contactSheet' };
+  const frame = /^frames\/frame-(\d+)\.\w+$/.exec(file);
+  return frame ? { sessionId, slot: `frame-${frame[1]}` } : null;
+}
+
+// Display name of a session in a fork family
+export function getSessionTitle(session: { isFork: boolean; forkPurpose?: string; forkStage?: string }): string {
+  if (!session.isFork) return 'Original';
+  return session.forkPurpose || `Fork at ${session.forkStage}`;
+}
+
 // Health check
 export async function checkHealth(): Promise<{
   status: string;
@@ -35,6 +84,17 @@ export async function checkHealth(): Promise<{
   return handleResponse(response);
 }
 
+// Workflows
+export async function listWorkflows(): Promise<{
+  success: boolean;
+  defaultWorkflowId: string;
+  count: number;
+  workflows: WorkflowSummary[];
+}> {
+  const response = await fetch(`${API_BASE}/workflows`);
+  return handleResponse(response);
+}
+
 // Sessions
 export async function listSessions(): Promise<{
   success: boolean;
@@ -61,6 +121,118 @@ export async function getSessionPipeline(sessionId: string): Promise<{
   return handleResponse(response);
 }
 
+// Session forks
+export async function forkSession(
+  sessionId: string,
+  stage: string,
+  purpose?: string
+): Promise<{
+  success: boolean;
+  session: Pick<SessionFamilyMember, 'id' | 'workflowId' | 'forkedFrom' | 'forkPurpose' | 'forkStage'>;
+  pipeline: PipelineState;
+}> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/fork`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ stage, purpose }),
+  });
+  return handleResponse(response);
+}
+
+export async function getSessionFamily(sessionId: string): Promise<{ success: boolean } & SessionFamily> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/family`);
+  return handleResponse(response);
+}
+
+export async function compareSessions(
+  sessionId: string,
+  ids: string[]
+): Promise<{ success: boolean; sessions: ComparedSession[] }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/family/compare?ids=${ids.map(encodeURIComponent).join(',')}`);
+  return handleResponse(response);
+}
+
+// Asset versions
+export async function listAssetVersions(sessionId: string): Promise<{
+  success: boolean;
+  activeVersions: Record<string, number>;
+  versions: Record<string, AssetVersion[]>;
+}> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/versions`);
+  return handleResponse(response);
+}
+
+export async function diffAssetVersions(
+  sessionId: string,
+  slot: string,
+  from: number,
+  to: number
+): Promise<{
+  success: boolean;
+  from: AssetVersion;
+  to: AssetVersion;
+  changes: Record<string, ParamChange>;
+}> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/versions/${slot}/diff?from=${from}&to=${to}`);
+  return handleResponse(response);
+}
+
+export async function promoteAssetVersion(
+  sessionId: string,
+  slot: string,
+  version: number
+): Promise<{ success: boolean; slot: string; activeVersion: number; path: string }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/versions/${slot}/promote`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ version }),
+  });
+  return handleResponse(response);
+}
+
+// Action cost estimate against the session budget
+export async function estimateActionCost(
+  sessionId: string,
+  templateId: string,
+  params: Record<string, unknown>
+): Promise<CostEstimateResponse> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/estimate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ templateId, params }),
+  });
+  return handleResponse(response);
+}
+
+// Quick render of a previewable action (e.g. overlays on a still frame); failures come back in the result
+export async function previewAction(
+  sessionId: string,
+  templateId: string,
+  params: Record<string, unknown>
+): Promise<ActionResult> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ templateId, params }),
+  });
+  return handleResponse(response);
+}
+
+// Propose an action from the UI; it arrives as an ActionCard over the WebSocket like agent proposals
+export async function proposeAction(
+  sessionId: string,
+  templateId: string,
+  params: Record<string, unknown>,
+  label?: string
+): Promise<{ success: boolean; instanceId: string }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/actions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ templateId, params, label }),
+  });
+  return handleResponse(response);
+}
+
 // Cancel active generation
 export async function cancelGeneration(
   sessionId: string
@@ -84,4 +256,16 @@ export async function uploadImages(files: File[]): Promise<UploadResponse> {
   return handleResponse(response);
 }
 
+// Upload a music track
+export async function uploadAudio(file: File): Promise<UploadResponse> {
+  const formData = new FormData();
+  formData.append('audio', file);
+
+  const response = await fetch(`${API_BASE}/upload/audio`, {
+    method: 'POST',
+    body: formData,
+  });
+  return handleResponse(response);
+}
+
 export { ApiError };
@@ -8,18 +8,101 @@ export interface SessionStats {
   status: 'active' | 'completed' | 'error';
   lastActive: string;
   isFork: boolean;
+  workflowId?: string;
+}
+
+// One generation of a pipeline slot ('hero', 'contactSheet', 'frame-N', 'video-N', 'finalVideo')
+export interface AssetVersion {
+  version: number;
+  path: string;
+  templateId: string;
+  instanceId: string;
+  params: Record<string, unknown>;
+  prompt?: string;
+  createdAt: string;
+}
+
+export interface ParamChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Workflow config summary (from GET /workflows)
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  description: string;
+  actions: string[];
+  stages: Array<{ id: string; action: string; label?: string; optional: boolean }>;
+}
+
+// One session of a fork family (from GET /sessions/:id/family)
+export interface SessionFamilyMember {
+  id: string;
+  workflowId: string;
+  status: string;
+  turnCount: number;
+  lastActive: string;
+  isFork: boolean;
+  forkedFrom?: string;
+  forkTimestamp?: string;
+  forkPurpose?: string;
+  forkStage?: string;
+  currentStage?: string;
+  progress: number;
+  hero?: string;
+  finalVideo?: string;
+}
+
+export interface SessionFamily {
+  baseSession: SessionFamilyMember;
+  forks: SessionFamilyMember[];
+}
+
+// One side of the family comparison (from GET /sessions/:id/family/compare)
+export interface ComparedSession {
+  id: string;
+  isFork: boolean;
+  forkPurpose?: string;
+  forkStage?: string;
+  lastActive: string;
+  assets: {
+    hero?: string;
+    contactSheet?: string;
+    frames: string[];
+    finalVideo?: string;
+  };
+  // Stage slot ('hero', 'contactSheet', 'frame-1', 'video-1', 'finalVideo') → params of its active version
+  params: Record<string, { templateId: string; params: Record<string, unknown> }>;
 }
 
 export interface PipelineState {
   stage: PipelineStage;
   progress: number;
+  currentStage?: string;       // Next required node in the workflow graph
+  nodes?: PipelineNodeStatus[];
   assets: {
     hero?: string;
     contactSheet?: string;
     frames?: string[];
+    frameOrder?: number[];     // Frame sequence as indices into frames
+    originalFrames?: string[]; // Frames before upscale_frames (frames holds the upscaled set)
     videos?: string[];
     finalVideo?: string;
+    exports?: Record<string, string>;  // Export preset → file
+    activeVersions?: Record<string, number>;
   };
+  inputImages?: string[];      // Uploaded reference images
+}
+
+// Workflow graph node status (from server pipeline engine)
+export interface PipelineNodeStatus {
+  id: string;
+  action: string;
+  label?: string;
+  optional: boolean;
+  complete: boolean;
+  ready: boolean;
 }
 
 export type PipelineStage =
@@ -165,8 +248,21 @@ export type ChatMessage =
   | ActionMessage;
 
 // Action Instance Pattern Types
-export type ActionPipelineStage = 'hero' | 'contact-sheet' | 'frames' | 'resize' | 'clips' | 'final';
-export type ActionParamType = 'enum' | 'text' | 'boolean' | 'number';
+// Node ID in the workflow stage graph (e.g. 'hero', 'frames', 'clips')
+export type ActionPipelineStage = string;
+export type ActionParamType =
+  | 'enum'
+  | 'text'
+  | 'boolean'
+  | 'number'
+  | 'list'
+  | 'image'     // Session asset or upload path
+  | 'frames'    // 1-based frame numbers in the current sequence
+  | 'bezier'    // [x1, y1, x2, y2]
+  | 'color'     // "#rrggbb"
+  | 'audio';    // Uploaded audio file path
+
+export type ActionImageSource = 'hero' | 'contactSheet' | 'frames' | 'uploads';
 
 export interface ActionParamOption {
   value: string;
@@ -188,11 +284,30 @@ export interface ActionParamSchema {
   // For text type
   placeholder?: string;
   multiline?: boolean;
+  // For list type (repeating rows)
+  itemFields?: Record<string, ActionParamSchema>;
+  itemLabel?: string;
+  maxItems?: number;
+  // For image type (default: all sources)
+  imageSources?: ActionImageSource[];
   // Display hints
   locked?: boolean;
   advanced?: boolean;
+  // Speed-curve graph of the value (time axis in seconds from durationParam)
+  curvePreview?: { durationParam?: string };
+  // Shown / editable only while other params match (see ActionParamCondition)
+  visibleWhen?: ActionParamCondition;
+  enabledWhen?: ActionParamCondition;
+  // Enum options keyed by another param's value
+  dependentOptions?: {
+    on: string;
+    options: Record<string, ActionParamOption[]>;
+  };
 }
 
+// Param key → required value or list of accepted values; all keys must match
+export type ActionParamCondition = Record<string, unknown>;
+
 export interface ActionTemplate {
   id: string;
   name: string;
@@ -200,6 +315,7 @@ export interface ActionTemplate {
   icon: string;
   stage: ActionPipelineStage;
   parameters: Record<string, ActionParamSchema>;
+  previewable?: boolean;  // POST /sessions/:id/preview renders a still before the full run
 }
 
 export interface ActionInstance {
@@ -218,7 +334,47 @@ export interface ActionResult {
   artifacts?: string[];
   message?: string;
   error?: string;
+  errorCode?: string;
   duration?: number;
+  itemErrors?: ActionItemError[];
+  fieldErrors?: Record<string, string>;   // VALIDATION_ERROR: message per param ("clipMotions.2.prompt" for list rows)
+  cost?: CostEstimate;
+  downloads?: ActionDownload[];
+}
+
+// Deliverable offered as a download link (e.g. an export preset)
+export interface ActionDownload {
+  id: string;
+  label: string;
+  path: string;
+}
+
+// Estimated provider spend (fal.ai images, Kling video) for one action run
+export interface CostEstimate {
+  totalUsd: number;
+  items: CostLineItem[];
+}
+
+export interface CostLineItem {
+  label: string;
+  quantity: number;
+  unitUsd: number;
+  usd: number;
+}
+
+export interface CostEstimateResponse {
+  success: boolean;
+  estimate: CostEstimate | null;   // null for free (local) actions
+  spentUsd: number;
+  budgetUsd: number | null;
+  withinBudget: boolean;
+}
+
+// Failure of one item in a batch action (e.g. one clip of generate_all_clips)
+export interface ActionItemError {
+  index: number;
+  error: string;
+  errorCode?: string;
 }
 
 // Action message type for chat
@@ -0,0 +1,132 @@
+// server/actions/action-store.ts
+// File-backed persistence for action instances and pending continuations
+
+import * as fs from "fs/promises";
+import path from "path";
+import { ActionInstance, PendingContinuation, SessionActionsSnapshot } from "./types.js";
+
+const SNAPSHOT_SUFFIX = ".actions.json";
+
+/**
+ * ActionStore - Persists per-session action state next to the session JSON
+ * written by SessionManager (sessions/<sessionId>.actions.json)
+ */
+export class ActionStore {
+  private directory: string;
+  private writeQueue: Map<string, Promise<void>> = new Map(); // sessionId -> last write
+
+  constructor(options: { directory?: string } = {}) {
+    this.directory = options.directory || path.join(process.cwd(), "sessions");
+  }
+
+  /**
+   * Write the action snapshot for a session
+   * Writes for the same session are serialized so a slow write can't
+   * overwrite a newer snapshot.
+   */
+  save(snapshot: SessionActionsSnapshot): Promise<void> {
+    const previous = this.writeQueue.get(snapshot.sessionId) || Promise.resolve();
+    const data = JSON.stringify(snapshot, null, 2);
+
+    const write = previous.then(async () => {
+      try {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.getFilePath(snapshot.sessionId), data);
+      } catch (error) {
+        console.error(`Failed to save actions for session ${snapshot.sessionId}:`, error);
+      }
+    });
+
+    this.writeQueue.set(snapshot.sessionId, write);
+    void write.then(() => {
+      if (this.writeQueue.get(snapshot.sessionId) === write) {
+        this.writeQueue.delete(snapshot.sessionId);
+      }
+    });
+    return write;
+  }
+
+  /**
+   * Load every persisted snapshot (used on server boot)
+   * Snapshots whose session JSON is gone belong to deleted sessions and are removed.
+   */
+  async loadAll(): Promise<SessionActionsSnapshot[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const snapshots: SessionActionsSnapshot[] = [];
+    for (const file of files) {
+      if (!file.endsWith(SNAPSHOT_SUFFIX)) continue;
+
+      const sessionId = file.slice(0, -SNAPSHOT_SUFFIX.length);
+      if (!(await this.hasSessionFile(sessionId))) {
+        console.log(`🗑️ Removing actions of deleted session ${sessionId}`);
+        await this.remove(sessionId);
+        continue;
+      }
+
+      try {
+        const data = await fs.readFile(path.join(this.directory, file), "utf-8");
+        snapshots.push(reviveSnapshot(JSON.parse(data)));
+      } catch (error) {
+        console.error(`Failed to load actions from ${file}:`, error);
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Delete the snapshot for a session
+   */
+  async remove(sessionId: string): Promise<void> {
+    await this.writeQueue.get(sessionId);
+    try {
+      await fs.unlink(this.getFilePath(sessionId));
+    } catch {
+      // File might not exist, ignore
+    }
+  }
+
+  private async hasSessionFile(sessionId: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.directory, `${sessionId}.json`));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}${SNAPSHOT_SUFFIX}`);
+  }
+}
+
+/**
+ * Convert date strings back to Date objects
+ */
+function reviveSnapshot(raw: SessionActionsSnapshot): SessionActionsSnapshot {
+  const reviveInstance = (instance: ActionInstance): ActionInstance => ({
+    ...instance,
+    timestamp: new Date(instance.timestamp),
+  });
+
+  let pendingContinuation: PendingContinuation | undefined;
+  if (raw.pendingContinuation) {
+    pendingContinuation = {
+      ...raw.pendingContinuation,
+      action: reviveInstance(raw.pendingContinuation.action),
+      timestamp: new Date(raw.pendingContinuation.timestamp),
+    };
+  }
+
+  return {
+    sessionId: raw.sessionId,
+    instances: (raw.instances || []).map(reviveInstance),
+    pendingContinuation,
+    savedAt: new Date(raw.savedAt),
+  };
+}
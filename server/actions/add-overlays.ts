@@ -0,0 +1,474 @@
+// server/actions/add-overlays.ts
+// Action executor for compositing a logo bug, product lower-third and end card onto the final video
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import ffmpeg, { FfmpegCommand } from "fluent-ffmpeg";
+import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { probeVideo, runFfmpeg, VideoInfo } from "../providers/ffmpeg.js";
+
+// Height of each still in the preview strip
+const PREVIEW_HEIGHT = 360;
+
+/**
+ * Quote a value for a filtergraph option (drawtext textfile/fontfile paths)
+ */
+const quote = (value: string) => `'${value.replace(/\\/g, "/").replace(/'/g, "'\\''")}'`;
+
+// drawtext font: OVERLAY_FONT_FILE (.ttf/.otf path) if set, else fontconfig's sans
+const fontOption = () => (process.env.OVERLAY_FONT_FILE ? `fontfile=${quote(process.env.OVERLAY_FONT_FILE)}` : "font=Sans");
+
+/**
+ * "#rrggbb" plus opacity as an ffmpeg color
+ */
+const withAlpha = (color: unknown, opacity: number) => `${String(color)}@${opacity}`;
+
+interface OverlayPlan {
+  source: string;       // Absolute path of the master
+  info: VideoInfo;
+  logo: string | null;  // Absolute path
+  endCardStart: number | null;
+  lowerThird: { start: number; end: number } | null;
+  filter: string;       // Complex filtergraph, output [v]
+}
+
+/**
+ * The stitched master without overlays. stitch_final always writes final/fashion-video.mp4,
+ * so re-running overlays replaces them instead of stacking on the previous render.
+ */
+async function getSourceVideo(context: ActionContext): Promise<string | null> {
+  const stitched = path.join(context.cwd, context.outputDir, "final", "fashion-video.mp4");
+  try {
+    await fs.access(stitched);
+    return stitched;
+  } catch {
+    const finalVideo = context.getAsset("finalVideo");
+    return typeof finalVideo === "string" ? path.resolve(context.cwd, finalVideo) : null;
+  }
+}
+
+/**
+ * Write overlay text to files for drawtext (textfile avoids filtergraph escaping)
+ */
+async function writeTextFile(dir: string, name: string, text: string): Promise<string> {
+  const filePath = path.join(dir, `${name}.txt`);
+  await fs.writeFile(filePath, text);
+  return filePath;
+}
+
+/**
+ * Build the filtergraph for the requested overlays; null when there's nothing to draw
+ */
+async function planOverlays(params: Record<string, unknown>, context: ActionContext): Promise<OverlayPlan | null> {
+  const {
+    logo,
+    logoPosition = "top-right",
+    logoSize = 12,
+    logoOpacity = 0.9,
+    productName = "",
+    productPrice = "",
+    lowerThirdPosition = "bottom-left",
+    lowerThirdStart = 1,
+    lowerThirdEnd = 4,
+    textColor = "#ffffff",
+    textBackground = "#000000",
+    backgroundOpacity = 0.55,
+    endCardText = "",
+    endCardDuration = 2,
+    endCardBackground = "#000000",
+  } = params;
+
+  const source = await getSourceVideo(context);
+  if (!source) {
+    throw Object.assign(new Error("No final video found. Run stitch_final first."), { code: "MISSING_FINAL_VIDEO" });
+  }
+  const info = await probeVideo(source);
+  const { width, height, duration } = info;
+
+  const textDir = path.join(context.cwd, context.outputDir, "final", "overlays");
+  await fs.mkdir(textDir, { recursive: true });
+
+  const logoPath = typeof logo === "string" && logo ? path.resolve(context.cwd, logo) : null;
+  const name = String(productName).trim();
+  const price = String(productPrice).trim();
+  const cardText = String(endCardText).trim();
+  const cardDuration = Math.min(Number(endCardDuration), duration);
+  const hasEndCard = cardDuration > 0 && (!!cardText || !!logoPath);
+  const endCardStart = hasEndCard ? Math.max(0, duration - cardDuration) : null;
+  const lowerThird = name || price
+    ? { start: Number(lowerThirdStart), end: Math.min(Number(lowerThirdEnd), endCardStart ?? duration) }
+    : null;
+
+  if (!logoPath && !lowerThird && !hasEndCard) return null;
+
+  // Layout scales with the video so vertical and horizontal exports look alike
+  const margin = Math.round(Math.min(width, height) * 0.05);
+  const chains: string[] = [];
+  let current = "[0:v]";
+  let step = 0;
+  const next = () => `[s${++step}]`;
+
+  if (logoPath) {
+    const logoWidth = Math.max(2, Math.round((width * Number(logoSize)) / 100));
+    const cardWidth = Math.round(width * 0.3);
+    chains.push(
+      `[1:v]format=rgba,colorchannelmixer=aa=${logoOpacity},split[logo_src][card_src]`,
+      `[logo_src]scale=${logoWidth}:-1[logo_bug]`,
+      `[card_src]scale=${cardWidth}:-1[logo_card]`
+    );
+
+    const positions: Record<string, string> = {
+      "top-left": `${margin}:${margin}`,
+      "top-right": `W-w-${margin}:${margin}`,
+      "bottom-left": `${margin}:H-h-${margin}`,
+      "bottom-right": `W-w-${margin}:H-h-${margin}`,
+    };
+    // The bug steps aside for the end card, which shows the logo large
+    const enable = endCardStart !== null ? `:enable='lt(t,${endCardStart})'` : "";
+    const label = next();
+    chains.push(`${current}[logo_bug]overlay=${positions[String(logoPosition)] ?? positions["top-right"]}${enable}${label}`);
+    current = label;
+  }
+
+  if (lowerThird) {
+    const nameSize = Math.round(height * 0.045);
+    const priceSize = Math.round(height * 0.034);
+    const border = Math.round(nameSize * 0.35);
+    const x = lowerThirdPosition === "bottom-center" ? "(w-text_w)/2"
+      : lowerThirdPosition === "bottom-right" ? `w-text_w-${margin + border}`
+      : `${margin + border}`;
+    const box = `box=1:boxcolor=${withAlpha(textBackground, Number(backgroundOpacity))}:boxborderw=${border}`;
+    const enable = `enable='between(t,${lowerThird.start},${lowerThird.end})'`;
+
+    const priceY = height - margin - border - priceSize;
+    const nameY = price ? priceY - border * 2 - nameSize : height - margin - border - nameSize;
+    const lines: Array<{ text: string; size: number; y: number; file: string }> = [];
+    if (name) lines.push({ text: name, size: nameSize, y: nameY, file: "product-name" });
+    if (price) lines.push({ text: price, size: priceSize, y: priceY, file: "product-price" });
+
+    for (const line of lines) {
+      const textFile = await writeTextFile(textDir, line.file, line.text);
+      const label = next();
+      chains.push(
+        `${current}drawtext=${fontOption()}:textfile=${quote(textFile)}:fontsize=${line.size}:fontcolor=${textColor}:x=${x}:y=${line.y}:${box}:${enable}${label}`
+      );
+      current = label;
+    }
+  }
+
+  if (endCardStart !== null) {
+    const enable = `enable='gte(t,${endCardStart})'`;
+    let label = next();
+    chains.push(`${current}drawbox=x=0:y=0:w=iw:h=ih:color=${endCardBackground}:t=fill:${enable}${label}`);
+    current = label;
+
+    if (logoPath) {
+      // Logo sits above center when there's a line of text under it
+      const y = cardText ? "(H-h)/2-H*0.06" : "(H-h)/2";
+      label = next();
+      chains.push(`${current}[logo_card]overlay=(W-w)/2:${y}:${enable}${label}`);
+      current = label;
+    }
+    if (cardText) {
+      const textFile = await writeTextFile(textDir, "end-card", cardText);
+      const y = logoPath ? "h*0.6" : "(h-text_h)/2";
+      label = next();
+      chains.push(
+        `${current}drawtext=${fontOption()}:textfile=${quote(textFile)}:fontsize=${Math.round(height * 0.04)}:fontcolor=${textColor}:x=(w-text_w)/2:y=${y}:${enable}${label}`
+      );
+      current = label;
+    }
+  } else if (logoPath) {
+    // The card copy of the logo is unused without an end card
+    chains.push("[logo_card]nullsink");
+  }
+
+  chains.push(`${current}format=yuv420p[v]`);
+
+  return {
+    source,
+    info,
+    logo: logoPath,
+    endCardStart,
+    lowerThird,
+    filter: chains.join(";"),
+  };
+}
+
+function buildCommand(plan: OverlayPlan): FfmpegCommand {
+  const command = ffmpeg(plan.source);
+  if (plan.logo) {
+    command.input(plan.logo);
+  }
+  return command.complexFilter(plan.filter);
+}
+
+/**
+ * Map planning failures (missing master, missing ffmpeg) to action errors
+ */
+function toErrorResult(error: unknown): ActionResult {
+  const message = error instanceof Error ? error.message : String(error);
+  if ((error as { code?: string })?.code === "MISSING_FINAL_VIDEO") {
+    return { success: false, error: message, errorCode: "MISSING_FINAL_VIDEO", retryable: false };
+  }
+  if (/Cannot find ff(mpeg|probe)/.test(message)) {
+    return { success: false, error: "FFmpeg not found. Install with: brew install ffmpeg", errorCode: "MISSING_FFMPEG", retryable: false };
+  }
+  return { success: false, error: message, errorCode: "OVERLAY_FAILED", retryable: true };
+}
+
+const NOTHING_TO_ADD: ActionResult = {
+  success: false,
+  error: "Add a logo, product text or end card text",
+  errorCode: "VALIDATION_ERROR",
+  retryable: false,
+  fieldErrors: { _: "Add a logo, product text or end card text" },
+};
+
+export const addOverlaysExecutor: ActionExecutor = {
+  template: {
+    id: "add_overlays",
+    name: "Add Overlays",
+    description: "Composite a logo bug, product lower-third and end card onto the final video",
+    icon: "🏷️",
+    stage: "final",
+    previewable: true,
+    parameters: {
+      logo: {
+        type: "image",
+        label: "Logo",
+        description: "Transparent PNG works best",
+        imageSources: ["uploads"],
+      },
+      logoPosition: {
+        type: "enum",
+        label: "Logo Position",
+        default: "top-right",
+        options: [
+          { value: "top-left", label: "Top Left" },
+          { value: "top-right", label: "Top Right" },
+          { value: "bottom-left", label: "Bottom Left" },
+          { value: "bottom-right", label: "Bottom Right" },
+        ],
+      },
+      logoSize: {
+        type: "number",
+        label: "Logo Size (% of width)",
+        default: 12,
+        min: 4,
+        max: 40,
+        step: 1,
+      },
+      productName: {
+        type: "text",
+        label: "Product Name",
+        placeholder: "Silk Wrap Dress",
+      },
+      productPrice: {
+        type: "text",
+        label: "Price",
+        placeholder: "$240",
+      },
+      lowerThirdPosition: {
+        type: "enum",
+        label: "Lower-Third Position",
+        default: "bottom-left",
+        options: [
+          { value: "bottom-left", label: "Bottom Left" },
+          { value: "bottom-center", label: "Bottom Center" },
+          { value: "bottom-right", label: "Bottom Right" },
+        ],
+      },
+      lowerThirdStart: {
+        type: "number",
+        label: "Lower-Third Start (s)",
+        default: 1,
+        min: 0,
+        max: 120,
+        step: 0.1,
+      },
+      lowerThirdEnd: {
+        type: "number",
+        label: "Lower-Third End (s)",
+        description: "Ends before the end card if they overlap",
+        default: 4,
+        min: 0,
+        max: 120,
+        step: 0.1,
+      },
+      endCardText: {
+        type: "text",
+        label: "End Card Text",
+        placeholder: "Shop the collection at brand.com",
+      },
+      endCardDuration: {
+        type: "number",
+        label: "End Card Length (s)",
+        description: "Last seconds of the video; 0 turns the end card off",
+        default: 2,
+        min: 0,
+        max: 10,
+        step: 0.5,
+      },
+      textColor: {
+        type: "color",
+        label: "Text Color",
+        default: "#ffffff",
+      },
+      textBackground: {
+        type: "color",
+        label: "Lower-Third Background",
+        default: "#000000",
+        advanced: true,
+      },
+      backgroundOpacity: {
+        type: "number",
+        label: "Lower-Third Background Opacity",
+        default: 0.55,
+        min: 0,
+        max: 1,
+        step: 0.05,
+        advanced: true,
+      },
+      endCardBackground: {
+        type: "color",
+        label: "End Card Background",
+        default: "#000000",
+        advanced: true,
+      },
+      logoOpacity: {
+        type: "number",
+        label: "Logo Opacity",
+        default: 0.9,
+        min: 0.1,
+        max: 1,
+        step: 0.05,
+        advanced: true,
+      },
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    let plan: OverlayPlan | null;
+    try {
+      plan = await planOverlays(params, context);
+    } catch (error) {
+      return toErrorResult(error);
+    }
+    if (!plan) {
+      return NOTHING_TO_ADD;
+    }
+
+    const outputPath = `${context.outputDir}/final/fashion-video-overlays.mp4`;
+
+    console.log(`🏷️ [OVERLAYS] Compositing onto ${path.relative(context.cwd, plan.source)}:`);
+    console.log(`   Logo: ${plan.logo ?? "(none)"}`);
+    console.log(`   Lower third: ${plan.lowerThird ? `${plan.lowerThird.start}s-${plan.lowerThird.end}s` : "(none)"}`);
+    console.log(`   End card: ${plan.endCardStart !== null ? `from ${plan.endCardStart}s` : "(none)"}`);
+    console.log(`   Output: ${outputPath}`);
+
+    context.emitProgress("final", "Rendering overlays...");
+
+    try {
+      await runFfmpeg(
+        buildCommand(plan)
+          .outputOptions([
+            "-map [v]",
+            "-map 0:a?",
+            "-c:v libx264",
+            "-crf 18",
+            "-preset medium",
+            "-c:a copy",
+            "-movflags +faststart",
+          ])
+          .output(path.join(context.cwd, outputPath))
+      );
+    } catch (error) {
+      return toErrorResult(error);
+    }
+
+    context.emitProgress("final", "Overlays added", 100);
+
+    const added = [plan.logo && "logo", plan.lowerThird && "lower-third", plan.endCardStart !== null && "end card"].filter(Boolean);
+    return {
+      success: true,
+      artifact: outputPath,
+      message: `Added ${added.join(", ")} to the final video`,
+    };
+  },
+
+  preview: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    let plan: OverlayPlan | null;
+    try {
+      plan = await planOverlays(params, context);
+    } catch (error) {
+      return toErrorResult(error);
+    }
+    if (!plan) {
+      return NOTHING_TO_ADD;
+    }
+
+    // One still per overlay moment: lower third (with the logo bug), then the end card
+    const { duration } = plan.info;
+    const times: number[] = [];
+    if (plan.lowerThird) {
+      times.push((plan.lowerThird.start + plan.lowerThird.end) / 2);
+    } else if (plan.logo && plan.endCardStart !== 0) {
+      times.push(Math.min(1, (plan.endCardStart ?? duration) / 2));
+    }
+    if (plan.endCardStart !== null) {
+      times.push((plan.endCardStart + duration) / 2);
+    }
+
+    const previewDir = path.join(context.cwd, context.outputDir, "final", "overlays");
+    const previewPath = `${context.outputDir}/final/overlay-preview.png`;
+
+    try {
+      const stills: Buffer[] = [];
+      for (const [i, time] of times.entries()) {
+        const stillPath = path.join(previewDir, `preview-${i + 1}.png`);
+        // Output-side seek keeps filter timestamps (enable='...') on the video's own clock
+        await runFfmpeg(
+          buildCommand(plan)
+            .outputOptions(["-map [v]", `-ss ${time.toFixed(2)}`, "-frames:v 1"])
+            .output(stillPath)
+        );
+        stills.push(await sharp(stillPath).resize({ height: PREVIEW_HEIGHT }).png().toBuffer());
+      }
+
+      // Side by side in time order
+      const widths = await Promise.all(stills.map(async (still) => (await sharp(still).metadata()).width ?? 0));
+      let left = 0;
+      await sharp({
+        create: {
+          width: widths.reduce((sum, width) => sum + width, 0),
+          height: PREVIEW_HEIGHT,
+          channels: 3,
+          background: "#000000",
+        },
+      })
+        .composite(stills.map((still, i) => {
+          const layer = { input: still, left, top: 0 };
+          left += widths[i];
+          return layer;
+        }))
+        .png()
+        .toFile(path.join(context.cwd, previewPath));
+    } catch (error) {
+      return toErrorResult(error);
+    }
+
+    return {
+      success: true,
+      artifact: previewPath,
+      message: `Preview at ${times.map((time) => `${time.toFixed(1)}s`).join(", ")}`,
+    };
+  },
+};
@@ -0,0 +1,133 @@
+// server/actions/camera-presets.ts
+// Camera-movement presets for video clips (see docs/CAMERA-MOVEMENTS-REFERENCE.md)
+
+import { ParamOption } from "./types.js";
+
+export interface CameraPreset {
+  label: string;
+  prompt: string;   // Motion prompt fragment sent to the video model
+}
+
+/**
+ * Movements from the reference doc that work for a single frame-to-frame clip
+ * Keys are the IDs the agent uses in clipMotions[].preset.
+ */
+export const CAMERA_PRESETS: Record<string, CameraPreset> = {
+  "static": {
+    label: "Static",
+    prompt: "Locked-off static camera, no camera movement, only subtle subject motion",
+  },
+  "dolly-in": {
+    label: "Dolly In",
+    prompt: "Camera dollies in toward the subject, physically moving closer with natural background parallax",
+  },
+  "dolly-out": {
+    label: "Dolly Out",
+    prompt: "Camera pulls back away from the subject, revealing more of the surroundings",
+  },
+  "slow-push": {
+    label: "Slow Push",
+    prompt: "Very slow, almost imperceptible push in toward the subject, building tension",
+  },
+  "truck-left": {
+    label: "Truck Left",
+    prompt: "Camera trucks sideways to the left, moving parallel to the subject",
+  },
+  "truck-right": {
+    label: "Truck Right",
+    prompt: "Camera trucks sideways to the right, moving parallel to the subject",
+  },
+  "pan-left": {
+    label: "Pan Left",
+    prompt: "Camera pans smoothly to the left from a fixed position",
+  },
+  "pan-right": {
+    label: "Pan Right",
+    prompt: "Camera pans smoothly to the right from a fixed position",
+  },
+  "tilt-up": {
+    label: "Tilt Up",
+    prompt: "Camera tilts up from the shoes to the face, revealing the full outfit",
+  },
+  "tilt-down": {
+    label: "Tilt Down",
+    prompt: "Camera tilts down from the face to the shoes, tracing the outfit",
+  },
+  "pedestal-up": {
+    label: "Pedestal Up",
+    prompt: "Camera rises vertically while staying level, keeping the subject framed",
+  },
+  "crane-up": {
+    label: "Crane Up",
+    prompt: "Camera cranes up and over the subject in a sweeping elevated move",
+  },
+  "crane-down": {
+    label: "Crane Down",
+    prompt: "Camera cranes down from a high angle to eye level with the subject",
+  },
+  "arc-left": {
+    label: "Arc Left",
+    prompt: "Camera arcs left around the subject, keeping them centered in frame",
+  },
+  "arc-right": {
+    label: "Arc Right",
+    prompt: "Camera arcs right around the subject, keeping them centered in frame",
+  },
+  "half-orbit": {
+    label: "Half Orbit",
+    prompt: "Camera orbits 180 degrees around the subject in one continuous move",
+  },
+  "zoom-in": {
+    label: "Zoom In",
+    prompt: "Lens zooms in on the subject without moving the camera, flattening perspective",
+  },
+  "slow-zoom": {
+    label: "Slow Zoom",
+    prompt: "Slow, gradual lens zoom toward the subject",
+  },
+  "dolly-zoom": {
+    label: "Dolly Zoom",
+    prompt: "Dolly zoom vertigo effect, subject stays the same size while the background warps",
+  },
+  "tracking": {
+    label: "Tracking Shot",
+    prompt: "Camera tracks alongside the subject as they move, following their walk",
+  },
+  "steadicam": {
+    label: "Steadicam",
+    prompt: "Smooth floating steadicam movement following the subject",
+  },
+  "handheld": {
+    label: "Handheld",
+    prompt: "Handheld camera with organic shake and documentary energy",
+  },
+  "drift": {
+    label: "Drift",
+    prompt: "Subtle slow camera drift, gentle floating movement",
+  },
+};
+
+/**
+ * Enum options for preset dropdowns ("" = custom prompt only)
+ */
+export function getCameraPresetOptions(): ParamOption[] {
+  return [
+    { value: "", label: "Custom (prompt only)" },
+    ...Object.entries(CAMERA_PRESETS).map(([value, preset]) => ({ value, label: preset.label })),
+  ];
+}
+
+/**
+ * Combine a preset and a free-text prompt into one motion prompt
+ * Unknown preset IDs are ignored so a stale proposal still runs.
+ */
+export function buildMotionPrompt(preset: unknown, prompt: unknown): string {
+  const parts: string[] = [];
+  if (typeof preset === "string" && CAMERA_PRESETS[preset]) {
+    parts.push(CAMERA_PRESETS[preset].prompt);
+  }
+  if (typeof prompt === "string" && prompt.trim()) {
+    parts.push(prompt.trim());
+  }
+  return parts.join(". ");
+}
@@ -0,0 +1,279 @@
+// server/actions/edit-image.ts
+// Action executor for local edits (inpainting) of the hero, contact sheet or a frame
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { imageCost, totalCost } from "./pricing.js";
+import { getImageProvider, getImageProviderParams } from "../providers/index.js";
+import { getWorkingPath, parseAssetSlot } from "../lib/asset-versions.js";
+
+/**
+ * Source file and fixed output path of an editable slot ("hero", "contactSheet", "frame-N").
+ * The source is the slot's active file, or a stored version when one is given.
+ */
+async function resolveTarget(
+  target: string,
+  version: number | undefined,
+  context: ActionContext
+): Promise<{ source: string; outputPath: string } | { error: string; field: string }> {
+  const slot = parseAssetSlot(target);
+  const workingPath = getWorkingPath(target);
+  if (!slot || !workingPath || slot.assetType === "video") {
+    return { error: "Target must be hero, contactSheet or frame-N", field: "target" };
+  }
+  const outputPath = `${context.outputDir}/${workingPath}`;
+
+  // Versions are snapshots of the working file (asset-versions.ts), so they keep its extension
+  if (version !== undefined) {
+    const source = `${context.outputDir}/versions/${target}/v${version}${path.extname(workingPath)}`;
+    try {
+      await fs.access(path.resolve(context.cwd, source));
+    } catch {
+      return { error: `${target} has no version ${version}`, field: "version" };
+    }
+    return { source, outputPath };
+  }
+
+  const frames = context.getAsset("extractedFrames");
+  const asset = slot.assetType === "frame"
+    ? (Array.isArray(frames) ? frames[slot.index ?? 0] : undefined)
+    : context.getAsset(slot.assetType);
+  return typeof asset === "string" && asset
+    ? { source: asset, outputPath }
+    : { error: `No ${target} in this session`, field: "target" };
+}
+
+/**
+ * Paste the edited image into the original through a feathered mask, so pixels outside it never change
+ */
+async function compositeThroughMask(
+  originalPath: string,
+  editedPath: string,
+  maskPath: string,
+  feather: number
+): Promise<Buffer> {
+  const { width, height } = await sharp(originalPath).metadata();
+  if (!width || !height) {
+    throw new Error(`Unreadable image: ${originalPath}`);
+  }
+
+  let mask = sharp(maskPath)
+    .flatten({ background: "#000000" })
+    .resize(width, height, { fit: "fill" })
+    .greyscale();
+  if (feather > 0) {
+    mask = sharp(await mask.png().toBuffer()).blur(Math.max(0.3, feather / 2));
+  }
+  const alpha = await mask.extractChannel(0).raw().toBuffer();
+
+  const rgb = await sharp(editedPath)
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  // Edited RGB + mask as its alpha channel
+  const edited = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    edited[i * 4] = rgb[i * 3];
+    edited[i * 4 + 1] = rgb[i * 3 + 1];
+    edited[i * 4 + 2] = rgb[i * 3 + 2];
+    edited[i * 4 + 3] = alpha[i];
+  }
+
+  return sharp(originalPath)
+    .composite([{ input: edited, raw: { width, height, channels: 4 } }])
+    .png()
+    .toBuffer();
+}
+
+export const editImageExecutor: ActionExecutor = {
+  template: {
+    id: "edit_image",
+    name: "Edit Image",
+    description: "Change a painted area of the hero, contact sheet or a frame (remove a logo, fix a hand) and keep the rest",
+    icon: "🖌️",
+    stage: "edit",
+    parameters: {
+      target: {
+        type: "text",
+        label: "Image",
+        description: "hero, contactSheet or frame-N",
+        required: true,
+        placeholder: "frame-3",
+      },
+      version: {
+        type: "number",
+        label: "From Version",
+        description: "Edit this stored version of the image instead of the current one (set when the mask was painted on an older version)",
+        min: 1,
+        step: 1,
+        advanced: true,
+      },
+      prompt: {
+        type: "text",
+        label: "Instruction",
+        description: "What to change in the painted area",
+        required: true,
+        multiline: true,
+        placeholder: "Remove the logo from the jacket; fix the left hand so it has five fingers...",
+      },
+      mask: {
+        type: "image",
+        label: "Mask",
+        description: "Painted in the image viewer; white is the area to change. Without a mask the whole image may change.",
+        imageSources: [],
+      },
+      feather: {
+        type: "number",
+        label: "Mask Feather (px)",
+        description: "Softens the mask edge so the edit blends in",
+        default: 12,
+        min: 0,
+        max: 64,
+        step: 1,
+        advanced: true,
+      },
+      resolution: {
+        type: "enum",
+        label: "Resolution",
+        description: "Edit resolution (the result is fitted to the image's size)",
+        default: "2K",
+        options: [
+          { value: "1K", label: "1K (Fast)" },
+          { value: "2K", label: "2K (Balanced)" },
+          { value: "4K", label: "4K (High Quality)" },
+        ],
+        advanced: true,
+      },
+      ...getImageProviderParams(),
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    const {
+      target,
+      version,
+      prompt,
+      mask,
+      feather = 12,
+      resolution = "2K",
+      provider: providerId,
+      seed,
+    } = params;
+
+    if (!prompt || typeof prompt !== "string") {
+      return {
+        success: false,
+        error: "Describe the edit",
+        errorCode: "MISSING_PROMPT",
+        retryable: false,
+      };
+    }
+
+    const resolved = await resolveTarget(
+      String(target ?? ""),
+      typeof version === "number" ? version : undefined,
+      context
+    );
+    if ("error" in resolved) {
+      return {
+        success: false,
+        error: resolved.error,
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: { [resolved.field]: resolved.error },
+      };
+    }
+
+    const provider = getImageProvider(providerId);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown image provider: ${providerId}`,
+        errorCode: "UNKNOWN_PROVIDER",
+        retryable: false,
+      };
+    }
+    if (!provider.editImage) {
+      return {
+        success: false,
+        error: `${provider.name} can't edit images`,
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: { provider: `${provider.name} can't edit images` },
+      };
+    }
+
+    const maskPath = typeof mask === "string" && mask ? mask : undefined;
+    // Provider output goes next to the session's edits; the target's fixed path gets the composite
+    const editedPath = `${context.outputDir}/edits/${target}.png`;
+
+    console.log(`🖌️ [EDIT] Editing ${target}:`);
+    console.log(`   Provider: ${provider.name}`);
+    console.log(`   Source: ${resolved.source}`);
+    console.log(`   Mask: ${maskPath ?? "(none - whole image)"}`);
+    console.log(`   Instruction: ${prompt}`);
+
+    context.emitProgress("edit", `Editing ${target}...`);
+
+    try {
+      const result = await provider.editImage(
+        {
+          prompt,
+          imagePath: resolved.source,
+          maskPath,
+          resolution: String(resolution),
+          seed: typeof seed === "number" ? seed : undefined,
+          outputPath: editedPath,
+        },
+        context
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error.message,
+          errorCode: result.error.code,
+          retryable: result.error.retryable,
+        };
+      }
+
+      const source = path.resolve(context.cwd, resolved.source);
+      const edited = path.resolve(context.cwd, result.outputPath);
+      let output: Buffer;
+      if (maskPath) {
+        output = await compositeThroughMask(source, edited, path.resolve(context.cwd, maskPath), Number(feather));
+      } else {
+        const { width, height } = await sharp(source).metadata();
+        output = await sharp(edited).resize(width, height, { fit: "fill" }).png().toBuffer();
+      }
+      await fs.writeFile(path.resolve(context.cwd, resolved.outputPath), output);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: "EXECUTION_ERROR",
+        retryable: true,
+      };
+    }
+
+    context.emitProgress("edit", `${target} edited`, 100);
+
+    return {
+      success: true,
+      artifact: resolved.outputPath,
+      message: maskPath ? `Edited the masked area of ${target}` : `Edited ${target}`,
+    };
+  },
+
+  estimateCost: (params) =>
+    getImageProvider(params.provider)?.billable === false
+      ? totalCost([])
+      : totalCost([imageCost("Image edit", params.resolution ?? "2K")]),
+};
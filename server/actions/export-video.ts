@@ -0,0 +1,372 @@
+// server/actions/export-video.ts
+// Action executor for exporting the final video in channel formats (Reels, feed, YouTube, GIF, WebM)
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import ffmpeg from "fluent-ffmpeg";
+import { ActionExecutor, ActionResult, ActionContext, ActionItemError, ActionDownload } from "./types.js";
+import { probeVideo, runFfmpeg, VideoInfo } from "../providers/ffmpeg.js";
+
+interface ExportPreset {
+  label: string;
+  extension: "mp4" | "webm" | "gif";
+  // Fixed output size; omitted keeps the master's aspect ratio
+  width?: number;
+  height?: number;
+}
+
+const EXPORT_PRESETS: Record<string, ExportPreset> = {
+  reels: { label: "Reels / TikTok (9:16)", extension: "mp4", width: 1080, height: 1920 },
+  feed: { label: "Feed (1:1)", extension: "mp4", width: 1080, height: 1080 },
+  youtube: { label: "YouTube (16:9)", extension: "mp4", width: 1920, height: 1080 },
+  gif: { label: "GIF Preview", extension: "gif" },
+  webm: { label: "WebM", extension: "webm" },
+};
+
+// CRF per quality level (x264 / VP9 scales differ)
+const QUALITY: Record<string, { x264: number; vp9: number }> = {
+  high: { x264: 18, vp9: 28 },
+  balanced: { x264: 23, vp9: 34 },
+};
+
+type FitMode = "crop" | "pad";
+
+interface SubjectCenter {
+  x: number;  // 0-1 across the frame
+  y: number;  // 0-1 down the frame
+}
+
+const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Where the subject sits in the frames, from sharp's attention crop (median over frames).
+ * Narrow and wide probe crops give the horizontal and vertical position.
+ */
+async function getSubjectCenter(framePaths: string[], cwd: string): Promise<SubjectCenter> {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const framePath of framePaths) {
+    try {
+      const image = sharp(path.resolve(cwd, framePath));
+      const { width = 0, height = 0 } = await image.metadata();
+      if (!width || !height) continue;
+
+      const narrow = await image.clone()
+        .resize(64, 256, { fit: "cover", position: sharp.strategy.attention })
+        .toBuffer({ resolveWithObject: true });
+      const wide = await image.clone()
+        .resize(256, 64, { fit: "cover", position: sharp.strategy.attention })
+        .toBuffer({ resolveWithObject: true });
+
+      // attentionX/Y are in the scaled (pre-crop) image
+      const narrowScale = Math.max(64 / width, 256 / height);
+      const wideScale = Math.max(256 / width, 64 / height);
+      if (narrow.info.attentionX !== undefined) xs.push(narrow.info.attentionX / (width * narrowScale));
+      if (wide.info.attentionY !== undefined) ys.push(wide.info.attentionY / (height * wideScale));
+    } catch (error) {
+      console.warn(`⚠️ [EXPORT] Could not analyze ${framePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    x: xs.length > 0 ? median(xs) : 0.5,
+    y: ys.length > 0 ? median(ys) : 0.5,
+  };
+}
+
+/**
+ * Filter graph fitting the master into width×height, labelled [v].
+ * Crop keeps the subject in the window; pad letterboxes over a blurred copy or black.
+ */
+function buildFitFilter(
+  source: VideoInfo,
+  width: number,
+  height: number,
+  mode: FitMode,
+  padStyle: string,
+  subject: SubjectCenter
+): string {
+  if (mode === "crop") {
+    const targetAspect = width / height;
+    let cropWidth = source.width;
+    let cropHeight = source.height;
+    if (source.width / source.height > targetAspect) {
+      cropWidth = even(source.height * targetAspect);
+    } else {
+      cropHeight = even(source.width / targetAspect);
+    }
+    const x = Math.round(Math.min(source.width - cropWidth, Math.max(0, subject.x * source.width - cropWidth / 2)));
+    const y = Math.round(Math.min(source.height - cropHeight, Math.max(0, subject.y * source.height - cropHeight / 2)));
+    return `[0:v]crop=${cropWidth}:${cropHeight}:${x}:${y},scale=${width}:${height},setsar=1[v]`;
+  }
+
+  const fit = `scale=${width}:${height}:force_original_aspect_ratio=decrease`;
+  if (padStyle === "black") {
+    return `[0:v]${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1[v]`;
+  }
+  return [
+    "[0:v]split[bg][fg]",
+    `[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=30:2[blurred]`,
+    `[fg]${fit}[fitted]`,
+    "[blurred][fitted]overlay=(W-w)/2:(H-h)/2,setsar=1[v]",
+  ].join(";");
+}
+
+export const exportVideoExecutor: ActionExecutor = {
+  template: {
+    id: "export_video",
+    name: "Export Video",
+    description: "Export the final video for each channel: Reels/TikTok, feed, YouTube, GIF preview and WebM",
+    icon: "📤",
+    stage: "export",
+    parameters: {
+      reels: {
+        type: "boolean",
+        label: "Reels / TikTok (9:16, 1080×1920)",
+        default: true,
+      },
+      feed: {
+        type: "boolean",
+        label: "Feed (1:1, 1080×1080)",
+        default: true,
+      },
+      youtube: {
+        type: "boolean",
+        label: "YouTube (16:9, 1920×1080)",
+        default: true,
+      },
+      gif: {
+        type: "boolean",
+        label: "GIF Preview",
+        default: true,
+      },
+      webm: {
+        type: "boolean",
+        label: "WebM (original size)",
+        default: false,
+      },
+      fitMode: {
+        type: "enum",
+        label: "Reframing",
+        description: "Crop follows the subject's position in the frames; pad keeps the whole frame",
+        default: "auto",
+        options: [
+          { value: "auto", label: "Auto (crop narrower, pad wider)" },
+          { value: "crop", label: "Smart Crop" },
+          { value: "pad", label: "Pad" },
+        ],
+      },
+      padStyle: {
+        type: "enum",
+        label: "Pad Style",
+        default: "blur",
+        options: [
+          { value: "blur", label: "Blurred Background" },
+          { value: "black", label: "Black Bars" },
+        ],
+        visibleWhen: { fitMode: ["auto", "pad"] },
+      },
+      quality: {
+        type: "enum",
+        label: "Quality",
+        default: "high",
+        options: [
+          { value: "high", label: "High (larger files)" },
+          { value: "balanced", label: "Balanced" },
+        ],
+        advanced: true,
+      },
+      gifWidth: {
+        type: "number",
+        label: "GIF Width",
+        default: 480,
+        min: 240,
+        max: 960,
+        step: 10,
+        advanced: true,
+        visibleWhen: { gif: true },
+      },
+      gifFps: {
+        type: "number",
+        label: "GIF FPS",
+        default: 12,
+        min: 5,
+        max: 30,
+        step: 1,
+        advanced: true,
+        visibleWhen: { gif: true },
+      },
+      gifMaxSeconds: {
+        type: "number",
+        label: "GIF Max Length (s)",
+        description: "GIFs get large quickly; longer videos are cut at this length",
+        default: 6,
+        min: 1,
+        max: 20,
+        step: 1,
+        advanced: true,
+        visibleWhen: { gif: true },
+      },
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    const {
+      fitMode = "auto",
+      padStyle = "blur",
+      quality = "high",
+      gifWidth = 480,
+      gifFps = 12,
+      gifMaxSeconds = 6,
+    } = params;
+
+    const presetIds = Object.keys(EXPORT_PRESETS).filter((id) => params[id] === true);
+    if (presetIds.length === 0) {
+      return {
+        success: false,
+        error: "Pick at least one format to export",
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: { _: "Pick at least one format to export" },
+      };
+    }
+
+    // Verify the stitched master exists
+    const finalVideo = context.getAsset("finalVideo");
+    if (!finalVideo || typeof finalVideo !== "string") {
+      return {
+        success: false,
+        error: "No final video found. Run stitch_final first.",
+        errorCode: "MISSING_FINAL_VIDEO",
+        retryable: false,
+      };
+    }
+
+    const masterPath = path.resolve(context.cwd, finalVideo);
+    const exportDir = `${context.outputDir}/final/exports`;
+    const crf = QUALITY[String(quality)] ?? QUALITY.high;
+
+    let source: VideoInfo;
+    try {
+      source = await probeVideo(masterPath);
+      await fs.mkdir(path.join(context.cwd, exportDir), { recursive: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/Cannot find ff(mpeg|probe)/.test(message)) {
+        return {
+          success: false,
+          error: "FFmpeg not found. Install with: brew install ffmpeg",
+          errorCode: "MISSING_FFMPEG",
+          retryable: false,
+        };
+      }
+      return {
+        success: false,
+        error: `Could not read the final video: ${message}`,
+        errorCode: "EXECUTION_ERROR",
+        retryable: true,
+      };
+    }
+
+    // Subject position only matters when a preset gets cropped
+    const frames = context.getAsset("frames");
+    const subject = Array.isArray(frames) && frames.length > 0 && fitMode !== "pad"
+      ? await getSubjectCenter(frames, context.cwd)
+      : { x: 0.5, y: 0.5 };
+
+    console.log(`📤 [EXPORT] Exporting ${finalVideo}:`);
+    console.log(`   Master: ${source.width}×${source.height}, ${source.duration.toFixed(1)}s${source.hasAudio ? " with audio" : ""}`);
+    console.log(`   Presets: ${presetIds.join(", ")}`);
+    console.log(`   Subject: x=${subject.x.toFixed(2)} y=${subject.y.toFixed(2)}`);
+
+    const downloads: ActionDownload[] = [];
+    const itemErrors: ActionItemError[] = [];
+
+    for (const [i, id] of presetIds.entries()) {
+      const preset = EXPORT_PRESETS[id];
+      const outputPath = `${exportDir}/fashion-video-${id}.${preset.extension}`;
+      context.emitProgress("export", `Exporting ${preset.label} (${i + 1}/${presetIds.length})...`, Math.round((i / presetIds.length) * 100));
+
+      const command = ffmpeg(masterPath);
+      if (preset.width && preset.height) {
+        // Auto: narrower targets crop (only the sides go), wider ones pad (no head/feet lost)
+        const narrower = preset.width / preset.height < source.width / source.height;
+        const mode: FitMode = fitMode === "auto" ? (narrower ? "crop" : "pad") : (fitMode as FitMode);
+        command
+          .complexFilter(buildFitFilter(source, preset.width, preset.height, mode, String(padStyle), subject))
+          .outputOptions([
+            "-map [v]",
+            "-map 0:a?",
+            "-c:v libx264",
+            `-crf ${crf.x264}`,
+            "-preset medium",
+            "-pix_fmt yuv420p",
+            "-c:a aac",
+            "-b:a 192k",
+            "-movflags +faststart",
+          ]);
+      } else if (preset.extension === "gif") {
+        // Two-pass palette in one graph keeps colors clean at GIF's 256-color limit
+        command
+          .complexFilter(
+            `[0:v]fps=${gifFps},scale=${gifWidth}:-2:flags=lanczos,split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=3[v]`
+          )
+          .outputOptions(["-map [v]", "-an", `-t ${gifMaxSeconds}`, "-loop 0"]);
+      } else {
+        command
+          .complexFilter("[0:v]scale=trunc(iw/2)*2:trunc(ih/2)*2,setsar=1[v]")
+          .outputOptions([
+            "-map [v]",
+            "-map 0:a?",
+            "-c:v libvpx-vp9",
+            "-b:v 0",
+            `-crf ${crf.vp9}`,
+            "-row-mt 1",
+            "-c:a libopus",
+          ]);
+      }
+
+      try {
+        await runFfmpeg(command.output(path.join(context.cwd, outputPath)));
+        downloads.push({ id, label: preset.label, path: outputPath });
+        console.log(`   ✓ ${preset.label}: ${outputPath}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`   ✗ ${preset.label}: ${message}`);
+        itemErrors.push({ index: i + 1, error: `${preset.label}: ${message}`, errorCode: "EXPORT_FAILED" });
+      }
+    }
+
+    if (downloads.length === 0) {
+      return {
+        success: false,
+        error: itemErrors.map((item) => item.error).join("; ") || "All exports failed",
+        errorCode: "EXPORT_FAILED",
+        retryable: true,
+        itemErrors,
+      };
+    }
+
+    context.emitProgress("export", "Exports ready", 100);
+
+    return {
+      success: true,
+      artifacts: downloads.map((download) => download.path),
+      downloads,
+      itemErrors: itemErrors.length > 0 ? itemErrors : undefined,
+      message: itemErrors.length > 0
+        ? `Exported ${downloads.length}/${presetIds.length} formats. Failed: ${itemErrors.map((item) => EXPORT_PRESETS[presetIds[item.index - 1]].label).join(", ")}`
+        : `Exported ${downloads.length} format${downloads.length > 1 ? "s" : ""}: ${downloads.map((download) => download.label).join(", ")}`,
+    };
+  },
+};
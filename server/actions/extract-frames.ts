@@ -7,7 +7,7 @@ export const extractFramesExecutor: ActionExecutor = {
   template: {
     id: "extract_frames",
     name: "Extract Frames",
-    description: "Extract 6 individual frames from the contact sheet grid",
+    description: "Extract individual frames (rows × cols) from the contact sheet grid",
     icon: "✂️",
     stage: "frames",
     parameters: {
@@ -54,6 +54,7 @@ export const extractFramesExecutor: ActionExecutor = {
         max: 50,
         step: 1,
         advanced: true,
+        visibleWhen: { cropMethod: "simple" },
       },
     },
   },
@@ -86,8 +87,8 @@ export const extractFramesExecutor: ActionExecutor = {
       ? ".claude/skills/fashion-shoot-pipeline/scripts/crop-frames-ffmpeg.ts"
       : ".claude/skills/fashion-shoot-pipeline/scripts/crop-frames.ts";
 
-    // Output path relative to cwd (agent/) for static serving at /outputs
-    const outputDir = `outputs/frames/`;
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const outputDir = `${context.outputDir}/frames/`;
 
     console.log(`✂️ [FRAMES] Extracting frames:`);
     console.log(`   Input: ${contactSheet}`);
@@ -1,45 +1,73 @@
 // server/actions/generate-all-clips.ts
 // Action executor for generating all video clips in batch
 
-import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { ActionExecutor, ActionResult, ActionContext, ActionItemError } from "./types.js";
+import { videoCost, totalCost } from "./pricing.js";
+import { buildMotionPrompt, getCameraPresetOptions } from "./camera-presets.js";
+import {
+  getVideoProvider,
+  getVideoDurationParam,
+  getVideoResolutionParam,
+  getNegativePromptParams,
+  resolveVideoDuration,
+  resolveVideoResolution,
+} from "../providers/index.js";
+
+const DEFAULT_MAX_CONCURRENCY = 3;
 
 export const generateAllClipsExecutor: ActionExecutor = {
   template: {
     id: "generate_all_clips",
     name: "Generate All Video Clips",
-    description: "Generate all 5 video clips (or 6 with loop) in sequence",
+    description: "Generate a clip between each pair of frames (plus an optional loop clip) in parallel",
     icon: "🎥",
     stage: "clips",
     parameters: {
       motionPrompt: {
         type: "text",
         label: "Motion Prompt",
-        description: "Describe the camera movement style (applied to all clips)",
-        required: true,
+        description: "Default camera movement, used for clips without their own row below",
         multiline: true,
         placeholder: "Smooth camera transition, cinematic movement...",
       },
-      duration: {
-        type: "enum",
-        label: "Duration per Clip",
-        description: "Duration for each video clip",
-        default: "5",
-        options: [
-          { value: "5", label: "5 seconds" },
-          { value: "10", label: "10 seconds" },
-        ],
+      clipMotions: {
+        type: "list",
+        label: "Per-Clip Motion",
+        description: "Camera move and prompt per clip (row 1 = clip 1)",
+        default: [],
+        itemLabel: "Clip",
+        maxItems: 16,
+        itemFields: {
+          preset: {
+            type: "enum",
+            label: "Camera Move",
+            default: "",
+            options: getCameraPresetOptions(),
+          },
+          prompt: {
+            type: "text",
+            label: "Prompt",
+            placeholder: "Extra direction for this clip...",
+          },
+        },
       },
+      duration: getVideoDurationParam("Duration per Clip", "Duration for each video clip"),
+      resolution: getVideoResolutionParam(),
       includeLoop: {
         type: "boolean",
         label: "Include Loop Clip",
-        description: "Generate 6th clip (frame 6 → frame 1) for seamless looping",
+        description: "Generate an extra clip from the last frame back to frame 1 for seamless looping",
         default: false,
       },
-      negativePrompt: {
-        type: "text",
-        label: "Negative Prompt",
-        description: "What to avoid in generation",
-        default: "blur, distort, and low quality",
+      ...getNegativePromptParams(),
+      maxConcurrency: {
+        type: "number",
+        label: "Max Concurrent Clips",
+        description: "How many clips are submitted to the video provider at the same time",
+        default: DEFAULT_MAX_CONCURRENCY,
+        min: 1,
+        max: 8,
+        step: 1,
         advanced: true,
       },
     },
@@ -50,108 +78,159 @@ export const generateAllClipsExecutor: ActionExecutor = {
     context: ActionContext
   ): Promise<ActionResult> => {
     const {
-      motionPrompt,
+      motionPrompt = "",
+      clipMotions = [],
       duration = "5",
       includeLoop = false,
+      resolution,
       negativePrompt = "blur, distort, and low quality",
+      maxConcurrency = DEFAULT_MAX_CONCURRENCY,
     } = params;
 
-    if (!motionPrompt || typeof motionPrompt !== "string") {
-      return {
-        success: false,
-        error: "Motion prompt is required",
-        errorCode: "MISSING_PROMPT",
-        retryable: false,
-      };
-    }
-
     // Verify frames exist
     const frames = context.getAsset("frames");
-    if (!frames || !Array.isArray(frames) || frames.length < 6) {
+    if (!frames || !Array.isArray(frames) || frames.length < 2) {
       return {
         success: false,
-        error: "Need 6 frames. Extract frames first.",
+        error: "Need at least 2 frames. Extract frames first.",
         errorCode: "MISSING_FRAMES",
         retryable: false,
       };
     }
 
-    const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/generate-video.ts";
-    const clipCount = includeLoop ? 6 : 5;
-    const artifacts: string[] = [];
-    const errors: string[] = [];
-
+    const provider = getVideoProvider();
+    const { capabilities } = provider;
+    const clipDuration = resolveVideoDuration(provider, duration);
+    const clipResolution = resolveVideoResolution(provider, resolution);
+    // N frames → N-1 transitions, plus the loop clip (frame N → frame 1)
+    const frameCount = frames.length;
+    const clipCount = includeLoop ? frameCount : frameCount - 1;
+
+    // Resolve one motion prompt per clip: the clip's row (preset + prompt) or the default prompt
+    const rows = Array.isArray(clipMotions) ? clipMotions : [];
+    const clipPrompts: string[] = [];
     for (let clipNum = 1; clipNum <= clipCount; clipNum++) {
+      const row = (rows[clipNum - 1] || {}) as { preset?: unknown; prompt?: unknown };
+      const clipPrompt = buildMotionPrompt(row.preset, row.prompt) || buildMotionPrompt(undefined, motionPrompt);
+      if (!clipPrompt) {
+        return {
+          success: false,
+          error: `Clip ${clipNum} has no motion: set a motion prompt or a camera move for every clip`,
+          errorCode: "MISSING_PROMPT",
+          retryable: false,
+        };
+      }
+      clipPrompts.push(clipPrompt);
+    }
+
+    const concurrency = Math.max(1, Math.min(clipCount, Math.floor(Number(maxConcurrency) || DEFAULT_MAX_CONCURRENCY)));
+
+    // Results are stored by clip index so artifacts stay in clip order
+    const clipArtifacts: (string | null)[] = new Array(clipCount).fill(null);
+    const itemErrors: ActionItemError[] = [];
+    let completed = 0;
+    let missingApiKey: string | null = null;
+
+    const generateClip = async (clipNum: number): Promise<void> => {
       // Frame pair mapping
       const startFrameIndex = clipNum - 1;
-      const endFrameIndex = clipNum === 6 ? 0 : clipNum;
+      const endFrameIndex = clipNum === frameCount ? 0 : clipNum;
 
+      // Providers without end-frame support animate from the start frame alone
       const startFrame = frames[startFrameIndex];
-      const endFrame = frames[endFrameIndex];
-      // Output path relative to cwd (agent/) for static serving at /outputs
-      const outputPath = `outputs/videos/video-${clipNum}.mp4`;
+      const endFrame = capabilities.tailFrame ? frames[endFrameIndex] : undefined;
+      // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+      const outputPath = `${context.outputDir}/videos/video-${clipNum}.mp4`;
 
       console.log(`🎥 [ALL CLIPS] Generating clip ${clipNum}/${clipCount}:`);
-      console.log(`   Start: ${startFrame} → End: ${endFrame}`);
+      console.log(`   Start: ${startFrame} → End: ${endFrame ?? "(start frame only)"}`);
       console.log(`   Output: ${outputPath}`);
+      console.log(`   Motion: ${clipPrompts[clipNum - 1]}`);
 
-      const args: string[] = [
-        "--input", startFrame,
-        "--input-tail", endFrame,
-        "--prompt", motionPrompt,
-        "--output", outputPath,
-        "--duration", String(duration),
-      ];
-
-      if (negativePrompt && typeof negativePrompt === "string") {
-        args.push("--negative-prompt", negativePrompt);
-      }
-
-      context.emitProgress("clips", `Generating clip ${clipNum}/${clipCount}...`, Math.round(((clipNum - 1) / clipCount) * 100));
+      context.emitProgress("clips", `Clip ${clipNum}/${clipCount} started`, Math.round((completed / clipCount) * 100));
 
       try {
-        const result = await context.runScript(scriptPath, args);
-
-        if (result.exitCode !== 0) {
-          const errorMessage = result.stderr || result.stdout;
-
-          if (errorMessage.includes("KLING")) {
-            return {
-              success: false,
-              error: "KLING_ACCESS_KEY and KLING_SECRET_KEY environment variables are required",
-              errorCode: "MISSING_API_KEY",
-              retryable: false,
-            };
+        const result = await provider.generateVideo(
+          {
+            prompt: clipPrompts[clipNum - 1],
+            startFrame,
+            endFrame,
+            duration: clipDuration,
+            resolution: clipResolution,
+            negativePrompt: capabilities.negativePrompt && typeof negativePrompt === "string" && negativePrompt
+              ? negativePrompt
+              : undefined,
+            outputPath,
+          },
+          context
+        );
+
+        if (!result.success) {
+          if (result.error.code === "MISSING_API_KEY") {
+            missingApiKey = result.error.message;
+            itemErrors.push({ index: clipNum, error: "Missing API credentials", errorCode: "MISSING_API_KEY" });
+          } else {
+            itemErrors.push({ index: clipNum, error: result.error.message, errorCode: result.error.code });
           }
-
-          errors.push(`Clip ${clipNum}: ${errorMessage || "failed"}`);
-          continue;
+        } else {
+          clipArtifacts[clipNum - 1] = result.outputPath;
         }
+      } catch (error) {
+        itemErrors.push({
+          index: clipNum,
+          error: error instanceof Error ? error.message : String(error),
+          errorCode: "CLIP_FAILED",
+        });
+      }
 
-        const artifact = result.artifacts?.[0] || outputPath;
-        artifacts.push(artifact);
-
-        context.emitProgress("clips", `Clip ${clipNum}/${clipCount} complete`, Math.round((clipNum / clipCount) * 100));
+      completed++;
+      const status = clipArtifacts[clipNum - 1] ? "complete" : "failed";
+      context.emitProgress("clips", `Clip ${clipNum}/${clipCount} ${status} (${completed}/${clipCount} done)`, Math.round((completed / clipCount) * 100));
+    };
 
-      } catch (error) {
-        errors.push(`Clip ${clipNum}: ${error instanceof Error ? error.message : String(error)}`);
+    // Worker pool: each worker takes the next clip number until none are left
+    let nextClip = 1;
+    const worker = async (): Promise<void> => {
+      while (nextClip <= clipCount && !missingApiKey) {
+        await generateClip(nextClip++);
       }
+    };
+
+    console.log(`🎥 [ALL CLIPS] Generating ${clipCount} clips, ${concurrency} at a time (${provider.name})`);
+    context.emitProgress("clips", `Generating ${clipCount} clips (${concurrency} at a time)...`, 0);
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    itemErrors.sort((a, b) => a.index - b.index);
+    const artifacts = clipArtifacts.filter((artifact): artifact is string => artifact !== null);
+
+    if (missingApiKey) {
+      return {
+        success: false,
+        error: missingApiKey,
+        errorCode: "MISSING_API_KEY",
+        retryable: false,
+        itemErrors,
+      };
     }
 
     if (artifacts.length === 0) {
       return {
         success: false,
-        error: errors.join("; ") || "All clips failed to generate",
+        error: itemErrors.map((item) => `Clip ${item.index}: ${item.error}`).join("; ") || "All clips failed to generate",
         errorCode: "ALL_CLIPS_FAILED",
         retryable: true,
+        itemErrors,
       };
     }
 
-    if (errors.length > 0) {
+    if (itemErrors.length > 0) {
       return {
         success: true,
         artifacts,
-        message: `Generated ${artifacts.length}/${clipCount} clips. Errors: ${errors.join("; ")}`,
+        message: `Generated ${artifacts.length}/${clipCount} clips. Failed: ${itemErrors.map((item) => `clip ${item.index}`).join(", ")}`,
+        itemErrors,
+        // Only generated clips are billed
+        cost: provider.billable ? totalCost([videoCost(`Clip (${clipDuration}s)`, clipDuration, artifacts.length)]) : totalCost([]),
       };
     }
 
@@ -161,4 +240,16 @@ export const generateAllClipsExecutor: ActionExecutor = {
       message: `All ${clipCount} video clips generated successfully`,
     };
   },
+
+  estimateCost: (params, context) => {
+    const provider = getVideoProvider();
+    if (!provider.billable) {
+      return totalCost([]);
+    }
+    const duration = resolveVideoDuration(provider, params.duration ?? "5");
+    const frames = context.getAsset("frames");
+    const frameCount = Array.isArray(frames) ? frames.length : 0;
+    const clipCount = frameCount < 2 ? 0 : params.includeLoop ? frameCount : frameCount - 1;
+    return totalCost([videoCost(`Clip (${duration}s)`, duration, clipCount)]);
+  },
 };
@@ -1,24 +1,44 @@
 // server/actions/generate-contact-sheet.ts
-// Action executor for generating the 2x3 contact sheet grid
+// Action executor for generating the contact sheet grid (2x3 by default)
 
 import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { imageCost, totalCost } from "./pricing.js";
+import { getImageProvider, getImageProviderParams } from "../providers/index.js";
 
 export const generateContactSheetExecutor: ActionExecutor = {
   template: {
     id: "generate_contact_sheet",
     name: "Generate Contact Sheet",
-    description: "Create a 2×3 grid of 6 camera angles/poses",
+    description: "Create a contact sheet grid of camera angles/poses (2×3 by default)",
     icon: "🎞️",
     stage: "contact-sheet",
     parameters: {
       prompt: {
         type: "text",
         label: "Prompt",
-        description: "The prompt describing the 6-panel contact sheet layout",
+        description: "The prompt describing the contact sheet layout (describe the same rows/cols as below)",
         required: true,
         multiline: true,
         placeholder: "Fashion editorial contact sheet, 2×3 grid showing 6 distinct camera angles...",
       },
+      rows: {
+        type: "number",
+        label: "Grid Rows",
+        description: "Number of rows in the contact sheet (extract_frames must use the same)",
+        default: 2,
+        min: 1,
+        max: 4,
+        step: 1,
+      },
+      cols: {
+        type: "number",
+        label: "Grid Columns",
+        description: "Number of columns in the contact sheet (extract_frames must use the same)",
+        default: 3,
+        min: 1,
+        max: 4,
+        step: 1,
+      },
       aspectRatio: {
         type: "enum",
         label: "Aspect Ratio",
@@ -47,6 +67,7 @@ export const generateContactSheetExecutor: ActionExecutor = {
         description: "Include uploaded reference images to maintain character consistency",
         default: true,
       },
+      ...getImageProviderParams(),
     },
   },
 
@@ -56,9 +77,13 @@ export const generateContactSheetExecutor: ActionExecutor = {
   ): Promise<ActionResult> => {
     const {
       prompt,
+      rows = 2,
+      cols = 3,
       aspectRatio = "3:2",
       resolution = "2K",
       useReferenceImages = true,
+      provider: providerId,
+      seed,
     } = params;
 
     if (!prompt || typeof prompt !== "string") {
@@ -70,64 +95,66 @@ export const generateContactSheetExecutor: ActionExecutor = {
       };
     }
 
-    const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/generate-image.ts";
-    // Output path relative to cwd (agent/) for static serving at /outputs
-    const outputPath = `outputs/contact-sheet.png`;
+    const provider = getImageProvider(providerId);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown image provider: ${providerId}`,
+        errorCode: "UNKNOWN_PROVIDER",
+        retryable: false,
+      };
+    }
+
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const outputPath = `${context.outputDir}/contact-sheet.png`;
 
     console.log(`🎞️ [CONTACT] Generating contact sheet:`);
+    console.log(`   Provider: ${provider.name}`);
     console.log(`   Output: ${outputPath}`);
     console.log(`   Reference images: ${context.referenceImages.length}`);
 
-    const args: string[] = [
-      "--prompt", prompt,
-      "--output", outputPath,
-      "--aspect-ratio", String(aspectRatio),
-      "--resolution", String(resolution),
-    ];
-
     // Add reference images (hero + original refs) for consistency
+    const referenceImages: string[] = [];
     if (useReferenceImages) {
       const hero = context.getAsset("hero");
       if (hero && typeof hero === "string") {
-        args.push("--input", hero);
-      }
-      for (const imagePath of context.referenceImages) {
-        args.push("--input", imagePath);
+        referenceImages.push(hero);
       }
+      referenceImages.push(...context.referenceImages);
     }
 
     context.emitProgress("contact-sheet", "Generating contact sheet grid...");
 
     try {
-      const result = await context.runScript(scriptPath, args);
-
-      if (result.exitCode !== 0) {
-        const errorMessage = result.stderr || result.stdout;
-
-        if (errorMessage.includes("FAL_KEY")) {
-          return {
-            success: false,
-            error: "FAL_KEY environment variable is not set",
-            errorCode: "MISSING_API_KEY",
-            retryable: false,
-          };
-        }
+      const result = await provider.generateImage(
+        {
+          prompt,
+          referenceImages,
+          aspectRatio: String(aspectRatio),
+          resolution: String(resolution),
+          seed: typeof seed === "number" ? seed : undefined,
+          outputPath,
+          grid: { rows: Number(rows), cols: Number(cols) },
+        },
+        context
+      );
 
+      if (!result.success) {
         return {
           success: false,
-          error: errorMessage || "Contact sheet generation failed",
-          errorCode: "GENERATION_FAILED",
-          retryable: true,
+          error: result.error.message,
+          errorCode: result.error.code,
+          retryable: result.error.retryable,
         };
       }
 
-      const artifact = result.artifacts?.[0] || outputPath;
+      const artifact = result.outputPath;
       context.emitProgress("contact-sheet", "Contact sheet generated successfully", 100);
 
       return {
         success: true,
         artifact,
-        message: "Contact sheet with 6 camera angles generated",
+        message: `Contact sheet with ${Number(rows) * Number(cols)} camera angles generated`,
       };
     } catch (error) {
       return {
@@ -138,4 +165,9 @@ export const generateContactSheetExecutor: ActionExecutor = {
       };
     }
   },
+
+  estimateCost: (params) =>
+    getImageProvider(params.provider)?.billable === false
+      ? totalCost([])
+      : totalCost([imageCost("Contact sheet", params.resolution ?? "2K")]),
 };
@@ -2,6 +2,8 @@
 // Action executor for generating the hero shot
 
 import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { imageCost, totalCost } from "./pricing.js";
+import { getImageProvider, getImageProviderParams } from "../providers/index.js";
 
 export const generateHeroExecutor: ActionExecutor = {
   template: {
@@ -51,6 +53,7 @@ export const generateHeroExecutor: ActionExecutor = {
         description: "Include uploaded reference images in generation",
         default: true,
       },
+      ...getImageProviderParams(),
     },
   },
 
@@ -63,6 +66,8 @@ export const generateHeroExecutor: ActionExecutor = {
       aspectRatio = "3:2",
       resolution = "2K",
       useReferenceImages = true,
+      provider: providerId,
+      seed,
     } = params;
 
     if (!prompt || typeof prompt !== "string") {
@@ -74,66 +79,54 @@ export const generateHeroExecutor: ActionExecutor = {
       };
     }
 
-    // Build script arguments
-    const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/generate-image.ts";
-    // Output path for script execution (relative to cwd which is agent/)
-    const outputPath = `outputs/hero.png`;
-    // Full path for verification
-    const fullOutputPath = `${context.outputDir}/hero.png`;
+    const provider = getImageProvider(providerId);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown image provider: ${providerId}`,
+        errorCode: "UNKNOWN_PROVIDER",
+        retryable: false,
+      };
+    }
+
+    // Output path relative to cwd (agent/)
+    const outputPath = `${context.outputDir}/hero.png`;
 
     console.log(`📸 [HERO] Generating hero shot:`);
-    console.log(`   Script: ${scriptPath}`);
+    console.log(`   Provider: ${provider.name}`);
     console.log(`   Output: ${outputPath}`);
-    console.log(`   Full path: ${fullOutputPath}`);
     console.log(`   Reference images: ${context.referenceImages.length}`);
 
-    const args: string[] = [
-      "--prompt", prompt,
-      "--output", outputPath,
-      "--aspect-ratio", String(aspectRatio),
-      "--resolution", String(resolution),
-    ];
-
-    // Add reference images if enabled and available
-    if (useReferenceImages && context.referenceImages.length > 0) {
-      for (const imagePath of context.referenceImages) {
-        args.push("--input", imagePath);
-      }
-    }
-
     context.emitProgress("hero", "Starting hero image generation...");
 
     try {
-      const result = await context.runScript(scriptPath, args);
-
-      if (result.exitCode !== 0) {
-        // Check for specific error messages
-        const errorMessage = result.stderr || result.stdout;
-
-        if (errorMessage.includes("FAL_KEY")) {
-          return {
-            success: false,
-            error: "FAL_KEY environment variable is not set",
-            errorCode: "MISSING_API_KEY",
-            retryable: false,
-          };
-        }
-
+      const result = await provider.generateImage(
+        {
+          prompt,
+          // Add reference images if enabled and available
+          referenceImages: useReferenceImages ? context.referenceImages : [],
+          aspectRatio: String(aspectRatio),
+          resolution: String(resolution),
+          seed: typeof seed === "number" ? seed : undefined,
+          outputPath,
+        },
+        context
+      );
+
+      if (!result.success) {
         return {
           success: false,
-          error: errorMessage || "Image generation failed",
-          errorCode: "GENERATION_FAILED",
-          retryable: true,
+          error: result.error.message,
+          errorCode: result.error.code,
+          retryable: result.error.retryable,
         };
       }
 
-      // Extract artifact from result - use outputs/hero.png format for static serving
-      const artifact = result.artifacts?.[0] || outputPath;
+      // Extract artifact from result - use outputs/<sessionId>/hero.png format for static serving
+      const artifact = result.outputPath;
 
       console.log(`📸 [HERO] Generation complete:`);
-      console.log(`   Exit code: ${result.exitCode}`);
       console.log(`   Artifact: ${artifact}`);
-      console.log(`   Stdout: ${result.stdout.substring(0, 200)}...`);
 
       context.emitProgress("hero", "Hero image generated successfully", 100);
 
@@ -151,4 +144,9 @@ export const generateHeroExecutor: ActionExecutor = {
       };
     }
   },
+
+  estimateCost: (params) =>
+    getImageProvider(params.provider)?.billable === false
+      ? totalCost([])
+      : totalCost([imageCost("Hero image", params.resolution ?? "2K")]),
 };
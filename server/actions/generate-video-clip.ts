@@ -2,6 +2,15 @@
 // Action executor for generating a single video clip between two frames
 
 import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { videoCost, totalCost } from "./pricing.js";
+import {
+  getVideoProvider,
+  getVideoDurationParam,
+  getVideoResolutionParam,
+  getNegativePromptParams,
+  resolveVideoDuration,
+  resolveVideoResolution,
+} from "../providers/index.js";
 
 export const generateVideoClipExecutor: ActionExecutor = {
   template: {
@@ -14,11 +23,11 @@ export const generateVideoClipExecutor: ActionExecutor = {
       clipNumber: {
         type: "number",
         label: "Clip Number",
-        description: "Which clip to generate (1-5 for standard, 6 for loop)",
+        description: "Clip N goes from frame N to frame N+1; the clip numbered like the last frame loops back to frame 1",
         required: true,
         default: 1,
         min: 1,
-        max: 6,
+        max: 16,
         step: 1,
       },
       motionPrompt: {
@@ -29,23 +38,9 @@ export const generateVideoClipExecutor: ActionExecutor = {
         multiline: true,
         placeholder: "Smooth camera transition, model maintains pose...",
       },
-      duration: {
-        type: "enum",
-        label: "Duration",
-        description: "Video clip duration in seconds",
-        default: "5",
-        options: [
-          { value: "5", label: "5 seconds" },
-          { value: "10", label: "10 seconds" },
-        ],
-      },
-      negativePrompt: {
-        type: "text",
-        label: "Negative Prompt",
-        description: "What to avoid in generation",
-        default: "blur, distort, and low quality",
-        advanced: true,
-      },
+      duration: getVideoDurationParam("Duration", "Video clip duration in seconds"),
+      resolution: getVideoResolutionParam(),
+      ...getNegativePromptParams(),
     },
   },
 
@@ -57,6 +52,7 @@ export const generateVideoClipExecutor: ActionExecutor = {
       clipNumber,
       motionPrompt,
       duration = "5",
+      resolution,
       negativePrompt = "blur, distort, and low quality",
     } = params;
 
@@ -89,16 +85,17 @@ export const generateVideoClipExecutor: ActionExecutor = {
       };
     }
 
-    // Determine frame pair based on clip number
+    // Determine frame pair based on clip number (N = frame count from the grid)
     // clip 1: frame-1 → frame-2
     // clip 2: frame-2 → frame-3
     // ...
-    // clip 5: frame-5 → frame-6
-    // clip 6: frame-6 → frame-1 (loop)
+    // clip N-1: frame-(N-1) → frame-N
+    // clip N: frame-N → frame-1 (loop)
+    const frameCount = frames.length;
     const startFrameIndex = clipNumber - 1;
-    const endFrameIndex = clipNumber === 6 ? 0 : clipNumber;
+    const endFrameIndex = clipNumber === frameCount ? 0 : clipNumber;
 
-    if (startFrameIndex >= frames.length || endFrameIndex >= frames.length) {
+    if (clipNumber < 1 || startFrameIndex >= frameCount || endFrameIndex >= frameCount) {
       return {
         success: false,
         error: `Invalid clip number ${clipNumber} for ${frames.length} frames`,
@@ -107,62 +104,59 @@ export const generateVideoClipExecutor: ActionExecutor = {
       };
     }
 
+    const provider = getVideoProvider();
+    const { capabilities } = provider;
+
+    // Providers without end-frame support animate from the start frame alone
     const startFrame = frames[startFrameIndex];
-    const endFrame = frames[endFrameIndex];
+    const endFrame = capabilities.tailFrame ? frames[endFrameIndex] : undefined;
+    const clipDuration = resolveVideoDuration(provider, duration);
 
-    const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/generate-video.ts";
-    // Output path relative to cwd (agent/) for static serving at /outputs
-    const outputPath = `outputs/videos/video-${clipNumber}.mp4`;
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const outputPath = `${context.outputDir}/videos/video-${clipNumber}.mp4`;
 
     console.log(`🎬 [CLIP] Generating video clip ${clipNumber}:`);
+    console.log(`   Provider: ${provider.name}`);
     console.log(`   Start frame: ${startFrame}`);
-    console.log(`   End frame: ${endFrame}`);
+    console.log(`   End frame: ${endFrame ?? "(start frame only)"}`);
     console.log(`   Output: ${outputPath}`);
 
-    const args: string[] = [
-      "--input", startFrame,
-      "--input-tail", endFrame,
-      "--prompt", motionPrompt,
-      "--output", outputPath,
-      "--duration", String(duration),
-    ];
-
-    if (negativePrompt && typeof negativePrompt === "string") {
-      args.push("--negative-prompt", negativePrompt);
-    }
-
     context.emitProgress("clips", `Generating video clip ${clipNumber}...`);
 
     try {
-      const result = await context.runScript(scriptPath, args);
-
-      if (result.exitCode !== 0) {
-        const errorMessage = result.stderr || result.stdout;
-
-        if (errorMessage.includes("KLING")) {
-          return {
-            success: false,
-            error: "KLING_ACCESS_KEY and KLING_SECRET_KEY environment variables are required",
-            errorCode: "MISSING_API_KEY",
-            retryable: false,
-          };
-        }
-
+      const result = await provider.generateVideo(
+        {
+          prompt: motionPrompt,
+          startFrame,
+          endFrame,
+          duration: clipDuration,
+          resolution: resolveVideoResolution(provider, resolution),
+          negativePrompt: capabilities.negativePrompt && typeof negativePrompt === "string" && negativePrompt
+            ? negativePrompt
+            : undefined,
+          outputPath,
+        },
+        context
+      );
+
+      if (!result.success) {
         return {
           success: false,
-          error: errorMessage || "Video generation failed",
-          errorCode: "GENERATION_FAILED",
-          retryable: true,
+          error: result.error.message,
+          errorCode: result.error.code,
+          retryable: result.error.retryable,
         };
       }
 
-      const artifact = result.artifacts?.[0] || outputPath;
+      const artifact = result.outputPath;
       context.emitProgress("clips", `Video clip ${clipNumber} generated successfully`, 100);
 
       return {
         success: true,
         artifact,
-        message: `Video clip ${clipNumber} (frame ${startFrameIndex + 1} → ${endFrameIndex + 1}) generated`,
+        message: endFrame
+          ? `Video clip ${clipNumber} (frame ${startFrameIndex + 1} → ${endFrameIndex + 1}) generated`
+          : `Video clip ${clipNumber} (from frame ${startFrameIndex + 1}, start frame only) generated`,
       };
     } catch (error) {
       return {
@@ -173,4 +167,13 @@ export const generateVideoClipExecutor: ActionExecutor = {
       };
     }
   },
+
+  estimateCost: (params) => {
+    const provider = getVideoProvider();
+    if (!provider.billable) {
+      return totalCost([]);
+    }
+    const duration = resolveVideoDuration(provider, params.duration ?? "5");
+    return totalCost([videoCost(`Clip (${duration}s)`, duration)]);
+  },
 };
@@ -12,12 +12,20 @@ import {
   ScriptResult,
   PipelineStage,
   PendingContinuation,
+  CostEstimate,
 } from "./types.js";
+import { ActionStore } from "./action-store.js";
+import { validateParams, formatFieldErrors, ParamValidationResult } from "./param-validation.js";
 
 export class ActionsManager {
   private templates: Map<string, ActionExecutor> = new Map();
   private instances: Map<string, ActionInstance> = new Map();
   private pendingContinuations: Map<string, PendingContinuation> = new Map();
+  private store?: ActionStore;
+
+  constructor(options: { store?: ActionStore } = {}) {
+    this.store = options.store;
+  }
 
   /**
    * Register an action executor (template + execution logic)
@@ -33,6 +41,75 @@ export class ActionsManager {
     return this.templates.get(id)?.template;
   }
 
+  /**
+   * Validate and coerce params against a template's parameter schemas (as execution does)
+   */
+  validateParams(templateId: string, params: Record<string, unknown>): ParamValidationResult {
+    const executor = this.templates.get(templateId);
+    if (!executor) {
+      return { success: false, fieldErrors: { _: `Action template not found: ${templateId}` } };
+    }
+    return validateParams(executor.template.parameters, params);
+  }
+
+  /**
+   * Estimated provider cost of running a template with params (null for free actions).
+   * Expects params already coerced by validateParams, so defaults and numbers are applied.
+   */
+  estimateCost(
+    templateId: string,
+    params: Record<string, unknown>,
+    context: Pick<ActionContext, "getAsset">
+  ): CostEstimate | null {
+    const executor = this.templates.get(templateId);
+    return executor?.estimateCost ? executor.estimateCost(params, context) : null;
+  }
+
+  /**
+   * Render a preview of a template with params (templates marked previewable)
+   */
+  async previewAction(
+    templateId: string,
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> {
+    const executor = this.templates.get(templateId);
+    if (!executor?.preview) {
+      return {
+        success: false,
+        error: `Action template has no preview: ${templateId}`,
+        errorCode: "PREVIEW_UNSUPPORTED",
+        retryable: false,
+      };
+    }
+
+    const validation = validateParams(executor.template.parameters, params);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Invalid parameters: ${formatFieldErrors(executor.template.parameters, validation.fieldErrors)}`,
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: validation.fieldErrors,
+      };
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await executor.preview(validation.params, context);
+      result.duration = Date.now() - startTime;
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: "EXECUTION_ERROR",
+        retryable: true,
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
   /**
    * Get all registered templates
    */
@@ -45,6 +122,7 @@ export class ActionsManager {
    */
   registerInstance(instance: ActionInstance): void {
     this.instances.set(instance.instanceId, instance);
+    this.persist(instance.sessionId);
   }
 
   /**
@@ -64,6 +142,7 @@ export class ActionsManager {
     const instance = this.instances.get(instanceId);
     if (instance) {
       instance.status = status;
+      this.persist(instance.sessionId);
     }
   }
 
@@ -71,7 +150,11 @@ export class ActionsManager {
    * Remove an instance
    */
   removeInstance(instanceId: string): void {
+    const instance = this.instances.get(instanceId);
     this.instances.delete(instanceId);
+    if (instance) {
+      this.persist(instance.sessionId);
+    }
   }
 
   /**
@@ -83,6 +166,68 @@ export class ActionsManager {
         this.instances.delete(id);
       }
     }
+    this.persist(sessionId);
+  }
+
+  /**
+   * Drop all action state for a session, including its persisted snapshot
+   * Called when the session itself is cleaned up
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    for (const [id, instance] of this.instances) {
+      if (instance.sessionId === sessionId) {
+        this.instances.delete(id);
+      }
+    }
+    this.pendingContinuations.delete(sessionId);
+    await this.store?.remove(sessionId);
+  }
+
+  /**
+   * Reload persisted instances and continuations (called on server boot)
+   * Instances that were mid-execution when the server stopped are reset to
+   * pending so the user can run them again from the ActionCard.
+   */
+  async restore(): Promise<number> {
+    if (!this.store) return 0;
+
+    const snapshots = await this.store.loadAll();
+    let restored = 0;
+
+    for (const snapshot of snapshots) {
+      for (const instance of snapshot.instances) {
+        if (instance.status === "executing") {
+          instance.status = "pending";
+        }
+        this.instances.set(instance.instanceId, instance);
+        restored++;
+      }
+      if (snapshot.pendingContinuation) {
+        this.pendingContinuations.set(snapshot.sessionId, snapshot.pendingContinuation);
+      }
+    }
+
+    if (snapshots.length > 0) {
+      console.log(`📂 Restored ${restored} action instance(s) across ${snapshots.length} session(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Write the current action state of a session to the store
+   */
+  private persist(sessionId: string): void {
+    if (!this.store) return;
+
+    const instances = Array.from(this.instances.values())
+      .filter((instance) => instance.sessionId === sessionId);
+
+    void this.store.save({
+      sessionId,
+      instances,
+      pendingContinuation: this.pendingContinuations.get(sessionId),
+      savedAt: new Date(),
+    });
   }
 
   /**
@@ -113,21 +258,42 @@ export class ActionsManager {
       };
     }
 
+    // Validate and coerce params against the template before the executor sees them
+    const validation = validateParams(executor.template.parameters, params);
+    if (!validation.success) {
+      instance.status = "error";
+      this.persist(instance.sessionId);
+      return {
+        success: false,
+        error: `Invalid parameters: ${formatFieldErrors(executor.template.parameters, validation.fieldErrors)}`,
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: validation.fieldErrors,
+      };
+    }
+    const validParams = validation.params;
+
     // Update status to executing
     instance.status = "executing";
+    this.persist(instance.sessionId);
 
     const startTime = Date.now();
 
     try {
-      const result = await executor.execute(params, context);
+      const result = await executor.execute(validParams, context);
       result.duration = Date.now() - startTime;
+      if (result.success && !result.cost && executor.estimateCost) {
+        result.cost = executor.estimateCost(validParams, context);
+      }
 
       // Update status based on result
       instance.status = result.success ? "completed" : "error";
+      this.persist(instance.sessionId);
 
       return result;
     } catch (error) {
       instance.status = "error";
+      this.persist(instance.sessionId);
       return {
         success: false,
         error: error instanceof Error ? error.message : String(error),
@@ -146,6 +312,7 @@ export class ActionsManager {
     continuation: PendingContinuation
   ): void {
     this.pendingContinuations.set(sessionId, continuation);
+    this.persist(sessionId);
   }
 
   /**
@@ -160,6 +327,7 @@ export class ActionsManager {
    */
   clearPendingContinuation(sessionId: string): void {
     this.pendingContinuations.delete(sessionId);
+    this.persist(sessionId);
   }
 
   /**
@@ -183,9 +351,18 @@ export class ActionsManager {
     if (result.duration) {
       lines.push(`Duration: ${(result.duration / 1000).toFixed(1)}s`);
     }
+    if (result.cost && result.cost.totalUsd > 0) {
+      lines.push(`Estimated cost: $${result.cost.totalUsd.toFixed(2)}`);
+    }
     if (result.error) {
       lines.push(`Error: ${result.error}`);
     }
+    if (result.itemErrors && result.itemErrors.length > 0) {
+      lines.push("Failed items:");
+      for (const item of result.itemErrors) {
+        lines.push(`- #${item.index}: ${item.error}`);
+      }
+    }
 
     if (userParamChanges && Object.keys(userParamChanges).length > 0) {
       lines.push("");
@@ -210,7 +387,7 @@ export function createActionContext(options: {
   cwd: string;
   outputDir: string;
   referenceImages: string[];
-  assetGetter: (type: "hero" | "contactSheet" | "frames" | "videos") => string | string[] | null;
+  assetGetter: ActionContext["getAsset"];
   stageGetter: () => PipelineStage;
   progressEmitter: (stage: string, message: string, progress?: number) => void;
 }): ActionContext {
@@ -305,8 +482,8 @@ export function createActionContext(options: {
   };
 }
 
-// Singleton instance
-export const actionsManager = new ActionsManager();
+// Singleton instance (persists next to session JSON files in sessions/)
+export const actionsManager = new ActionsManager({ store: new ActionStore() });
 
 // Import all executors
 import { generateHeroExecutor } from "./generate-hero.js";
@@ -316,6 +493,12 @@ import { resizeFramesExecutor } from "./resize-frames.js";
 import { generateVideoClipExecutor } from "./generate-video-clip.js";
 import { generateAllClipsExecutor } from "./generate-all-clips.js";
 import { stitchFinalExecutor } from "./stitch-final.js";
+import { reorderFramesExecutor } from "./reorder-frames.js";
+import { upscaleFramesExecutor } from "./upscale-frames.js";
+import { regenerateFrameExecutor } from "./regenerate-frame.js";
+import { editImageExecutor } from "./edit-image.js";
+import { addOverlaysExecutor } from "./add-overlays.js";
+import { exportVideoExecutor } from "./export-video.js";
 
 /**
  * Initialize the actions manager with all registered executors
@@ -330,6 +513,12 @@ export function initializeActions(): void {
   // Frame extraction and manipulation
   actionsManager.registerTemplate(extractFramesExecutor);
   actionsManager.registerTemplate(resizeFramesExecutor);
+  actionsManager.registerTemplate(reorderFramesExecutor);
+  actionsManager.registerTemplate(upscaleFramesExecutor);
+  actionsManager.registerTemplate(regenerateFrameExecutor);
+
+  // Local edits of images (inpainting)
+  actionsManager.registerTemplate(editImageExecutor);
 
   // Video clip generation
   actionsManager.registerTemplate(generateVideoClipExecutor);
@@ -337,6 +526,10 @@ export function initializeActions(): void {
 
   // Final video stitching
   actionsManager.registerTemplate(stitchFinalExecutor);
+  actionsManager.registerTemplate(addOverlaysExecutor);
+
+  // Channel exports of the final video
+  actionsManager.registerTemplate(exportVideoExecutor);
 }
 
 // Auto-initialize on import
@@ -344,3 +537,4 @@ initializeActions();
 
 // Re-export types
 export * from "./types.js";
+export { ActionStore } from "./action-store.js";
@@ -0,0 +1,236 @@
+// server/actions/param-validation.ts
+// Validate and coerce action params against the template's ParamSchema (zod)
+
+import { z } from "zod";
+import { ParamSchema, ParamFieldErrors, ParamCondition } from "./types.js";
+
+export type ParamValidationResult =
+  | { success: true; params: Record<string, unknown> }
+  | { success: false; fieldErrors: ParamFieldErrors };
+
+// Form fields left empty arrive as "" (or null from JSON) - treat them as unset
+const emptyToUndefined = (value: unknown) => (value === "" || value === null ? undefined : value);
+
+/**
+ * zod schema for one param; values are coerced to the declared type
+ * (e.g. duration 5 → "5", "2" → 2, "true" → true)
+ */
+function buildFieldSchema(schema: ParamSchema): z.ZodTypeAny {
+  let field: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case "enum": {
+      const values = (schema.options ?? []).map((option) => option.value);
+      field = z.preprocess(
+        (value) => (typeof value === "number" || typeof value === "boolean" ? String(value) : value),
+        z.string().refine(
+          (value) => values.length === 0 || values.includes(value),
+          (value) => ({
+            message: values.length <= 6
+              ? `Must be one of: ${values.map((option) => option || "(none)").join(", ")}`
+              : `Unknown option "${value}"`,
+          })
+        )
+      );
+      // "" is a real option for some enums (e.g. "Custom" camera move)
+      return applyPresence(field, schema, values.includes(""));
+    }
+
+    case "text":
+      // Arrays of values (e.g. frame order [3, 1, 2]) are joined into the text form
+      field = z.preprocess(
+        (value) =>
+          Array.isArray(value) ? value.join(", ")
+            : typeof value === "number" || typeof value === "boolean" ? String(value)
+            : value,
+        z.string()
+      );
+      break;
+
+    case "number": {
+      let number = z.coerce.number({ invalid_type_error: "Must be a number" }).finite("Must be a number");
+      if (schema.min !== undefined) number = number.min(schema.min, `Must be at least ${schema.min}`);
+      if (schema.max !== undefined) number = number.max(schema.max, `Must be at most ${schema.max}`);
+      if (schema.step !== undefined && Number.isInteger(schema.step)) number = number.int("Must be a whole number");
+      field = number;
+      break;
+    }
+
+    case "boolean":
+      field = z.preprocess(
+        (value) => (value === "true" ? true : value === "false" ? false : value),
+        z.boolean({ invalid_type_error: "Must be true or false" })
+      );
+      break;
+
+    case "list": {
+      let list = z.array(buildObjectSchema(schema.itemFields ?? {}), { invalid_type_error: "Must be a list" });
+      if (schema.maxItems !== undefined) list = list.max(schema.maxItems, `At most ${schema.maxItems} items`);
+      field = list;
+      break;
+    }
+
+    case "image":
+      field = z.string({ invalid_type_error: "Pick an image" }).min(1, "Pick an image");
+      break;
+
+    case "audio":
+      field = z.string({ invalid_type_error: "Upload an audio file" }).min(1, "Upload an audio file");
+      break;
+
+    case "frames": {
+      let frames = z.array(z.coerce.number().int("Frame numbers are whole numbers").min(1, "Frame numbers start at 1"), {
+        invalid_type_error: "Must be a list of frame numbers",
+      });
+      if (schema.required) frames = frames.min(1, "Select at least one frame");
+      if (schema.maxItems !== undefined) frames = frames.max(schema.maxItems, `Select at most ${schema.maxItems} frames`);
+      // Accept [1, 3] or "1, 3"
+      field = z.preprocess(
+        (value) => (typeof value === "string" ? value.split(/[\s,]+/).filter(Boolean) : value),
+        frames
+      );
+      break;
+    }
+
+    case "bezier":
+      // Accept [x1, y1, x2, y2] or "x1,y1,x2,y2"; x values must stay within 0-1
+      field = z.preprocess(
+        (value) => (typeof value === "string" ? value.split(",").map((part) => part.trim()) : value),
+        z
+          .array(z.coerce.number().finite(), { invalid_type_error: "Must be 4 bezier control points" })
+          .length(4, "Must be 4 bezier control points")
+          .refine(([x1, , x2]) => x1 >= 0 && x1 <= 1 && x2 >= 0 && x2 <= 1, "x values must be between 0 and 1")
+      );
+      break;
+
+    case "color":
+      // "#abc" is expanded to "#aabbcc"
+      field = z.preprocess(
+        (value) =>
+          typeof value === "string" && /^#[0-9a-f]{3}$/i.test(value)
+            ? `#${value.slice(1).split("").map((c) => c + c).join("")}`
+            : value,
+        z.string().regex(/^#[0-9a-f]{6}$/i, "Must be a hex color like #ff8800").transform((value) => value.toLowerCase())
+      );
+      break;
+
+    default:
+      field = z.unknown();
+  }
+
+  return applyPresence(field, schema, false);
+}
+
+/**
+ * Required params must be present (and non-empty); optional ones fall back to the template default
+ */
+function applyPresence(field: z.ZodTypeAny, schema: ParamSchema, allowEmpty: boolean): z.ZodTypeAny {
+  const normalize = (value: unknown) => (allowEmpty && value === "" ? value : emptyToUndefined(value));
+
+  if (schema.required) {
+    return z.preprocess(
+      normalize,
+      z.unknown().superRefine((value, ctx) => {
+        if (value === undefined) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${schema.label} is required` });
+        }
+      }).pipe(field)
+    );
+  }
+
+  const optional = schema.default !== undefined ? field.optional().default(schema.default) : field.optional();
+  return z.preprocess(normalize, optional);
+}
+
+function buildObjectSchema(parameters: Record<string, ParamSchema>) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [key, schema] of Object.entries(parameters)) {
+    shape[key] = buildFieldSchema(schema);
+  }
+  // Params outside the template (e.g. extra agent hints) pass through untouched
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Whether params satisfy a condition (values compared as strings, so 5 matches "5")
+ */
+export function matchesCondition(
+  condition: ParamCondition,
+  parameters: Record<string, ParamSchema>,
+  params: Record<string, unknown>
+): boolean {
+  return Object.entries(condition).every(([key, expected]) => {
+    const actual = params[key] ?? parameters[key]?.default;
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return accepted.some((value) => String(value) === String(actual));
+  });
+}
+
+/**
+ * The params that apply to these values: hidden/disabled ones are left out
+ * and dependent enums get the option list for the current value
+ */
+export function resolveParameters(
+  parameters: Record<string, ParamSchema>,
+  params: Record<string, unknown>
+): Record<string, ParamSchema> {
+  const resolved: Record<string, ParamSchema> = {};
+  for (const [key, schema] of Object.entries(parameters)) {
+    if (schema.visibleWhen && !matchesCondition(schema.visibleWhen, parameters, params)) continue;
+    if (schema.enabledWhen && !matchesCondition(schema.enabledWhen, parameters, params)) continue;
+
+    if (schema.dependentOptions) {
+      const { on, options } = schema.dependentOptions;
+      const dependsOn = String(params[on] ?? parameters[on]?.default ?? "");
+      const resolvedOptions = options[dependsOn] ?? schema.options ?? [];
+      // The template default may belong to another option list
+      const defaultValue = resolvedOptions.some((option) => option.value === schema.default)
+        ? schema.default
+        : resolvedOptions[0]?.value;
+      resolved[key] = { ...schema, options: resolvedOptions, default: defaultValue };
+    } else {
+      resolved[key] = schema;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Validate params against a template's parameter schemas.
+ * Returns coerced params (with defaults applied) or per-field messages.
+ */
+export function validateParams(
+  parameters: Record<string, ParamSchema>,
+  params: Record<string, unknown>
+): ParamValidationResult {
+  const input = params ?? {};
+  const active = resolveParameters(parameters, input);
+  const parsed = buildObjectSchema(active).safeParse(input);
+  if (parsed.success) {
+    // Params that don't apply (hidden/disabled) never reach the executor
+    const data: Record<string, unknown> = { ...parsed.data };
+    for (const key of Object.keys(parameters)) {
+      if (!(key in active)) delete data[key];
+    }
+    return { success: true, params: data };
+  }
+
+  const fieldErrors: ParamFieldErrors = {};
+  for (const issue of parsed.error.issues) {
+    const key = issue.path.join(".") || "_";
+    // First message per field is enough for inline display
+    if (!fieldErrors[key]) {
+      fieldErrors[key] = issue.message;
+    }
+  }
+  return { success: false, fieldErrors };
+}
+
+/**
+ * One-line summary of field errors, using the template labels
+ */
+export function formatFieldErrors(parameters: Record<string, ParamSchema>, fieldErrors: ParamFieldErrors): string {
+  return Object.entries(fieldErrors)
+    .map(([key, message]) => `${parameters[key.split(".")[0]]?.label ?? key}: ${message}`)
+    .join("; ");
+}
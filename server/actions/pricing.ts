@@ -0,0 +1,55 @@
+// server/actions/pricing.ts
+// Provider list prices used for action cost estimates (USD)
+
+import { CostEstimate, CostLineItem } from "./types.js";
+
+// fal.ai nano-banana-pro (image + edit), per image; 4K is billed at double rate
+export const IMAGE_PRICE_PER_RESOLUTION: Record<string, number> = {
+  "1K": 0.15,
+  "2K": 0.15,
+  "4K": 0.30,
+};
+
+// Kling v2.6 pro image-to-video, per second of output
+export const VIDEO_PRICE_PER_SECOND = 0.07;
+
+// fal.ai Real-ESRGAN, per image (billed by compute time; ~2K output)
+export const UPSCALE_PRICE_PER_IMAGE = 0.01;
+
+/**
+ * Line item for N generated images at a resolution
+ */
+export function imageCost(label: string, resolution: unknown, count = 1): CostLineItem {
+  const unitUsd = IMAGE_PRICE_PER_RESOLUTION[String(resolution)] ?? IMAGE_PRICE_PER_RESOLUTION["2K"];
+  return { label, quantity: count, unitUsd, usd: roundUsd(unitUsd * count) };
+}
+
+/**
+ * Line item for N generated clips of a duration (seconds)
+ */
+export function videoCost(label: string, durationSeconds: unknown, count = 1): CostLineItem {
+  const seconds = Number(durationSeconds) || 5;
+  const unitUsd = roundUsd(VIDEO_PRICE_PER_SECOND * seconds);
+  return { label, quantity: count, unitUsd, usd: roundUsd(unitUsd * count) };
+}
+
+/**
+ * Line item for N upscaled images
+ */
+export function upscaleCost(label: string, count = 1): CostLineItem {
+  return { label, quantity: count, unitUsd: UPSCALE_PRICE_PER_IMAGE, usd: roundUsd(UPSCALE_PRICE_PER_IMAGE * count) };
+}
+
+/**
+ * Sum line items into an estimate
+ */
+export function totalCost(items: CostLineItem[]): CostEstimate {
+  return {
+    totalUsd: roundUsd(items.reduce((sum, item) => sum + item.usd, 0)),
+    items,
+  };
+}
+
+export function roundUsd(usd: number): number {
+  return Math.round(usd * 100) / 100;
+}
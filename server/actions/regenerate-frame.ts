@@ -0,0 +1,241 @@
+// server/actions/regenerate-frame.ts
+// Action executor for regenerating one contact sheet frame with a corrective prompt
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import { imageCost, totalCost } from "./pricing.js";
+import { getImageProvider, getImageProviderParams } from "../providers/index.js";
+
+// Aspect ratios the image providers accept; the closest one to the frame is requested
+const ASPECT_RATIOS = ["21:9", "16:9", "3:2", "4:3", "5:4", "1:1", "4:5", "3:4", "2:3", "9:16"];
+
+const REGENERATE_PROMPT = [
+  "Single fashion editorial photograph (one frame, not a grid, no borders or captions).",
+  "Same model, outfit, hair, makeup, lighting and background as the reference images.",
+  "{{composition}}",
+  "Correction: {{correction}}",
+].join(" ");
+
+/**
+ * Closest supported aspect ratio to a width/height
+ */
+function getClosestAspectRatio(width: number, height: number): string {
+  const target = Math.log(width / height);
+  return ASPECT_RATIOS.reduce((best, ratio) => {
+    const [w, h] = ratio.split(":").map(Number);
+    const [bw, bh] = best.split(":").map(Number);
+    return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+  });
+}
+
+export const regenerateFrameExecutor: ActionExecutor = {
+  template: {
+    id: "regenerate_frame",
+    name: "Regenerate Frame",
+    description: "Replace one frame of the contact sheet without regenerating the whole grid",
+    icon: "🔁",
+    stage: "frames",
+    parameters: {
+      frameNumber: {
+        type: "number",
+        label: "Frame Number",
+        description: "Frame N of the contact sheet (frame-N.png, in grid order)",
+        required: true,
+        default: 1,
+        min: 1,
+        max: 16,
+        step: 1,
+      },
+      prompt: {
+        type: "text",
+        label: "Correction",
+        description: "What to fix in this frame",
+        required: true,
+        multiline: true,
+        placeholder: "The dress should be deep emerald green; remove the extra hand on the hip...",
+      },
+      keepComposition: {
+        type: "boolean",
+        label: "Keep Composition",
+        description: "Use the current frame as a reference so the angle and pose stay the same",
+        default: true,
+      },
+      useNeighbours: {
+        type: "boolean",
+        label: "Use Neighbouring Frames",
+        description: "Include the frames before and after as references for consistency",
+        default: true,
+      },
+      resolution: {
+        type: "enum",
+        label: "Resolution",
+        description: "Generation resolution (the result is fitted to the frame's size)",
+        default: "1K",
+        options: [
+          { value: "1K", label: "1K (Fast)" },
+          { value: "2K", label: "2K (Balanced)" },
+        ],
+        advanced: true,
+      },
+      ...getImageProviderParams(),
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    const {
+      frameNumber,
+      prompt,
+      keepComposition = true,
+      useNeighbours = true,
+      resolution = "1K",
+      provider: providerId,
+      seed,
+    } = params;
+
+    if (!prompt || typeof prompt !== "string") {
+      return {
+        success: false,
+        error: "Describe what to fix in the frame",
+        errorCode: "MISSING_PROMPT",
+        retryable: false,
+      };
+    }
+
+    const frames = context.getAsset("extractedFrames");
+    if (!frames || !Array.isArray(frames) || frames.length === 0) {
+      return {
+        success: false,
+        error: "No frames found. Extract frames first.",
+        errorCode: "MISSING_FRAMES",
+        retryable: false,
+      };
+    }
+
+    const index = Number(frameNumber) - 1;
+    if (!frames[index]) {
+      return {
+        success: false,
+        error: `Frame ${frameNumber} doesn't exist (${frames.length} frames)`,
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors: { frameNumber: `Choose a frame from 1 to ${frames.length}` },
+      };
+    }
+
+    const provider = getImageProvider(providerId);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown image provider: ${providerId}`,
+        errorCode: "UNKNOWN_PROVIDER",
+        retryable: false,
+      };
+    }
+
+    // Upscaled sets are regenerated at crop size, so upscale_frames can treat the new frame like the rest
+    const originalFrames = context.getAsset("originalFrames");
+    const sizeSource = Array.isArray(originalFrames) && originalFrames[index] ? originalFrames[index] : frames[index];
+    const { width, height } = await sharp(path.resolve(context.cwd, sizeSource)).metadata();
+    if (!width || !height) {
+      return {
+        success: false,
+        error: `Unreadable frame: ${sizeSource}`,
+        errorCode: "MISSING_FRAMES",
+        retryable: false,
+      };
+    }
+
+    // References: the frame itself (composition), the hero, its grid neighbours, then uploads
+    const referenceImages: string[] = [];
+    if (keepComposition) {
+      referenceImages.push(frames[index]);
+    }
+    const hero = context.getAsset("hero");
+    if (hero && typeof hero === "string") {
+      referenceImages.push(hero);
+    }
+    if (useNeighbours) {
+      referenceImages.push(...[frames[index - 1], frames[index + 1]].filter(Boolean));
+    }
+    referenceImages.push(...context.referenceImages);
+
+    const fullPrompt = context.buildPrompt(REGENERATE_PROMPT, {
+      composition: keepComposition
+        ? "Keep the camera angle, pose and framing of the first reference image."
+        : "Choose a camera angle and pose that differs from the other frames.",
+      correction: prompt,
+    });
+
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const outputPath = `${context.outputDir}/frames/frame-${index + 1}.png`;
+    const generatedPath = `${context.outputDir}/frames/frame-${index + 1}.regenerated.png`;
+    const aspectRatio = getClosestAspectRatio(width, height);
+
+    console.log(`🔁 [REGENERATE] Regenerating frame ${index + 1}:`);
+    console.log(`   Provider: ${provider.name}`);
+    console.log(`   Correction: ${prompt}`);
+    console.log(`   References: ${referenceImages.length}`);
+    console.log(`   Size: ${width}x${height} (requested ${aspectRatio})`);
+
+    context.emitProgress("frames", `Regenerating frame ${index + 1}...`);
+
+    try {
+      const result = await provider.generateImage(
+        {
+          prompt: fullPrompt,
+          referenceImages,
+          aspectRatio,
+          resolution: String(resolution),
+          seed: typeof seed === "number" ? seed : undefined,
+          outputPath: generatedPath,
+        },
+        context
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error.message,
+          errorCode: result.error.code,
+          retryable: result.error.retryable,
+        };
+      }
+
+      // Fit to the frame's exact size so it lines up with the rest of the set
+      const generatedFile = path.resolve(context.cwd, result.outputPath);
+      await sharp(generatedFile)
+        .resize(width, height, { fit: "cover", position: sharp.strategy.attention })
+        .png()
+        .toFile(path.resolve(context.cwd, outputPath));
+      await fs.rm(generatedFile, { force: true });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: "EXECUTION_ERROR",
+        retryable: true,
+      };
+    }
+
+    context.emitProgress("frames", `Frame ${index + 1} regenerated`, 100);
+
+    const wasUpscaled = Array.isArray(originalFrames) && originalFrames.length > 0;
+    return {
+      success: true,
+      artifact: outputPath,
+      message: wasUpscaled
+        ? `Frame ${index + 1} regenerated. Run upscale_frames again to upscale it with the rest.`
+        : `Frame ${index + 1} regenerated`,
+    };
+  },
+
+  estimateCost: (params) =>
+    getImageProvider(params.provider)?.billable === false
+      ? totalCost([])
+      : totalCost([imageCost("Frame", params.resolution ?? "1K")]),
+};
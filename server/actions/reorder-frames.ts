@@ -0,0 +1,89 @@
+// server/actions/reorder-frames.ts
+// Action executor for setting the frame sequence used by clips and stitching
+
+import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+
+export const reorderFramesExecutor: ActionExecutor = {
+  template: {
+    id: "reorder_frames",
+    name: "Reorder Frames",
+    description: "Set the frame sequence for video clips (reorder or drop frames)",
+    icon: "🔀",
+    stage: "frames",
+    parameters: {
+      order: {
+        type: "text",
+        label: "Frame Order",
+        description: "Frame numbers (grid order) in playback order, comma-separated. Leave a frame out to drop it.",
+        required: true,
+        placeholder: "1, 2, 3, 4, 5, 6",
+      },
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    const { order } = params;
+
+    // Frame numbers always refer to the extracted grid, not the current sequence
+    const frames = context.getAsset("extractedFrames");
+    if (!frames || !Array.isArray(frames) || frames.length === 0) {
+      return {
+        success: false,
+        error: "No frames found. Extract frames first.",
+        errorCode: "MISSING_FRAMES",
+        retryable: false,
+      };
+    }
+
+    // Accept "3, 1, 2" or [3, 1, 2]
+    const rawOrder = Array.isArray(order) ? order : String(order ?? "").split(/[\s,→>-]+/);
+    const frameNumbers = rawOrder
+      .map((value) => String(value).trim())
+      .filter((value) => value.length > 0)
+      .map(Number);
+
+    const invalid = frameNumbers.filter((n) => !Number.isInteger(n) || n < 1 || n > frames.length);
+    if (invalid.length > 0) {
+      return {
+        success: false,
+        error: `Invalid frame number(s): ${invalid.join(", ")}. Use 1-${frames.length}.`,
+        errorCode: "INVALID_FRAME_ORDER",
+        retryable: false,
+      };
+    }
+
+    const duplicates = frameNumbers.filter((n, i) => frameNumbers.indexOf(n) !== i);
+    if (duplicates.length > 0) {
+      return {
+        success: false,
+        error: `Frame(s) listed more than once: ${Array.from(new Set(duplicates)).join(", ")}`,
+        errorCode: "INVALID_FRAME_ORDER",
+        retryable: false,
+      };
+    }
+
+    if (frameNumbers.length < 2) {
+      return {
+        success: false,
+        error: "Keep at least 2 frames to generate a clip",
+        errorCode: "INVALID_FRAME_ORDER",
+        retryable: false,
+      };
+    }
+
+    const sequence = frameNumbers.map((n) => frames[n - 1]);
+    const dropped = frames.length - sequence.length;
+
+    console.log(`🔀 [REORDER] Frame sequence: ${frameNumbers.join(" → ")}`);
+    context.emitProgress("frames", "Frame sequence updated", 100);
+
+    return {
+      success: true,
+      artifacts: sequence,
+      message: `Frame sequence set to ${frameNumbers.join(" → ")}${dropped > 0 ? ` (${dropped} dropped)` : ""}. Existing clips were cleared.`,
+    };
+  },
+};
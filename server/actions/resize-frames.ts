@@ -57,8 +57,8 @@ export const resizeFramesExecutor: ActionExecutor = {
     }
 
     const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/resize-frames.ts";
-    // Output path relative to cwd (agent/) for static serving at /outputs
-    const framesDir = `outputs/frames/`;
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const framesDir = `${context.outputDir}/frames/`;
 
     console.log(`📐 [RESIZE] Resizing frames:`);
     console.log(`   Frames dir: ${framesDir}`);
@@ -84,7 +84,11 @@ export const resizeFramesExecutor: ActionExecutor = {
         };
       }
 
-      const artifacts = result.artifacts || frames;
+      // Frames are resized in place in the frames dir, so every extracted frame is rewritten
+      const extractedFrames = context.getAsset("extractedFrames");
+      const frameCount = Array.isArray(extractedFrames) ? extractedFrames.length : frames.length;
+      const artifacts = result.artifacts ||
+        Array.from({ length: frameCount }, (_, i) => `${framesDir}frame-${i + 1}.png`);
       context.emitProgress("resize", `Resized ${artifacts.length} frames to ${aspectRatio}`, 100);
 
       return {
@@ -1,7 +1,51 @@
 // server/actions/stitch-final.ts
 // Action executor for stitching video clips into final fashion video
 
-import { ActionExecutor, ActionResult, ActionContext } from "./types.js";
+import * as fs from "fs/promises";
+import path from "path";
+import { ActionExecutor, ActionResult, ActionContext, ParamOption, ParamFieldErrors } from "./types.js";
+import { BEZIER_PRESETS, SpeedCurve, formatSpeedCurve, parseSpeedCurve } from "../lib/speed-curves.js";
+import { detectBeats, muxAudioTrack, snapDurationsToBeats } from "../lib/audio-track.js";
+import { stitchRetimedClips } from "../lib/clip-retime.js";
+import { probeVideo } from "../providers/ffmpeg.js";
+
+// Curves the stitch script knows by name (dramaticSwoop is sent as its bezier)
+const STANDARD_CURVES: ParamOption[] = [
+  { value: "dramaticSwoop", label: "Dramatic Swoop (Recommended)" },
+  { value: "easeInOutSine", label: "Ease In/Out Sine (Gentle)" },
+  { value: "easeInOutCubic", label: "Ease In/Out Cubic (Smooth)" },
+  { value: "easeInOutQuart", label: "Ease In/Out Quart (Punchy)" },
+  { value: "easeInOutExpo", label: "Ease In/Out Expo (Extreme)" },
+];
+
+// Bezier presets from docs/EASING_CURVES.md (points live in BEZIER_PRESETS)
+const CINEMATIC_CURVES: ParamOption[] = [
+  { value: "cinematic", label: "Cinematic (fast in, long settle)" },
+  { value: "dramatic", label: "Dramatic (slow ends, fast middle)" },
+  { value: "luxurious", label: "Luxurious (silky arrival)" },
+  { value: "smoothInOut", label: "Smooth In/Out (Material)" },
+];
+
+// Per-clip duration limits (also the bounds for beat snapping)
+const MIN_CLIP_DURATION = 0.5;
+const MAX_CLIP_DURATION = 3.0;
+
+// Slow start, fast middle, slow settle - the default look
+const DRAMATIC_SWOOP = BEZIER_PRESETS.dramaticSwoop;
+
+/**
+ * Script flag for a curve the stitch script knows (named easing or bezier)
+ */
+function getCurveArgs(curve: SpeedCurve): string[] {
+  switch (curve.type) {
+    case "easing":
+      return ["--easing", curve.name];
+    case "bezier":
+      return ["--bezier", formatSpeedCurve(curve)];
+    case "keyframes":
+      return [];
+  }
+}
 
 export const stitchFinalExecutor: ActionExecutor = {
   template: {
@@ -16,29 +60,123 @@ export const stitchFinalExecutor: ActionExecutor = {
         label: "Clip Duration",
         description: "Output duration per clip in seconds (after speed curve)",
         default: 1.5,
-        min: 0.5,
-        max: 3.0,
+        min: MIN_CLIP_DURATION,
+        max: MAX_CLIP_DURATION,
         step: 0.1,
       },
+      curveFamily: {
+        type: "enum",
+        label: "Curve Type",
+        description: "Built-in easing functions, cinematic bezier presets, or your own bezier",
+        default: "standard",
+        options: [
+          { value: "standard", label: "Standard" },
+          { value: "cinematic", label: "Cinematic" },
+          { value: "custom", label: "Custom Bezier" },
+          { value: "keyframes", label: "Speed Keyframes" },
+        ],
+      },
       easingCurve: {
         type: "enum",
         label: "Easing Curve",
         description: "Speed curve for smooth transitions",
         default: "dramaticSwoop",
-        options: [
-          { value: "dramaticSwoop", label: "Dramatic Swoop (Recommended)" },
-          { value: "easeInOutSine", label: "Ease In/Out Sine (Gentle)" },
-          { value: "easeInOutCubic", label: "Ease In/Out Cubic (Smooth)" },
-          { value: "easeInOutQuart", label: "Ease In/Out Quart (Punchy)" },
-          { value: "easeInOutExpo", label: "Ease In/Out Expo (Extreme)" },
-        ],
+        options: STANDARD_CURVES,
+        visibleWhen: { curveFamily: ["standard", "cinematic"] },
+        curvePreview: { durationParam: "clipDuration" },
+        dependentOptions: {
+          on: "curveFamily",
+          options: {
+            standard: STANDARD_CURVES,
+            cinematic: CINEMATIC_CURVES,
+          },
+        },
+      },
+      customBezier: {
+        type: "bezier",
+        label: "Bezier Curve",
+        description: "Drag the handles to shape the speed curve (x values stay between 0 and 1)",
+        default: DRAMATIC_SWOOP,
+        visibleWhen: { curveFamily: "custom" },
+        curvePreview: { durationParam: "clipDuration" },
+      },
+      speedKeyframes: {
+        type: "text",
+        label: "Speed Keyframes",
+        description: "time:speed pairs across each clip (time 0-1, speed relative to the clip average, linear in between)",
+        default: "0:0.4, 0.5:3, 1:0.4",
+        placeholder: "0:0.4, 0.5:3, 1:0.4",
+        visibleWhen: { curveFamily: "keyframes" },
+        curvePreview: { durationParam: "clipDuration" },
+      },
+      transitions: {
+        type: "list",
+        label: "Per-Clip Timing",
+        description: "Override the curve and duration per clip (row 1 = clip 1). Curve: easing name, x1,y1,x2,y2 or time:speed keyframes",
+        default: [],
+        itemLabel: "Clip",
+        maxItems: 16,
+        itemFields: {
+          curve: {
+            type: "text",
+            label: "Curve",
+            placeholder: "Same as above",
+          },
+          duration: {
+            type: "number",
+            label: "Duration",
+            placeholder: "Duration (s)",
+            min: MIN_CLIP_DURATION,
+            max: MAX_CLIP_DURATION,
+            step: 0.1,
+          },
+        },
       },
       includeLoop: {
         type: "boolean",
         label: "Include Loop Clip",
-        description: "Include 6th clip for seamless looping (if generated)",
+        description: "Include the loop clip (last frame → frame 1) if it was generated",
+        default: false,
+      },
+      audioTrack: {
+        type: "audio",
+        label: "Music Track",
+        description: "Muxed under the video, trimmed to its length with fades",
+      },
+      snapToBeats: {
+        type: "boolean",
+        label: "Snap Cuts to Beats",
+        description: "Adjust clip durations so cuts land on the music's beats",
         default: false,
       },
+      audioOffset: {
+        type: "number",
+        label: "Music Start (s)",
+        description: "Where in the track the video starts",
+        default: 0,
+        min: 0,
+        max: 600,
+        step: 0.1,
+        advanced: true,
+      },
+      audioFadeIn: {
+        type: "number",
+        label: "Music Fade In (s)",
+        default: 0.5,
+        min: 0,
+        max: 5,
+        step: 0.1,
+        advanced: true,
+      },
+      audioFadeOut: {
+        type: "number",
+        label: "Music Fade Out (s)",
+        default: 1.5,
+        min: 0,
+        max: 5,
+        step: 0.1,
+        advanced: true,
+      },
       outputFps: {
         type: "number",
         label: "Output FPS",
@@ -58,8 +196,17 @@ export const stitchFinalExecutor: ActionExecutor = {
   ): Promise<ActionResult> => {
     const {
       clipDuration = 1.5,
+      curveFamily = "standard",
       easingCurve = "dramaticSwoop",
+      customBezier,
+      speedKeyframes = "",
+      transitions = [],
       includeLoop = false,
+      audioTrack,
+      snapToBeats = false,
+      audioOffset = 0,
+      audioFadeIn = 0.5,
+      audioFadeOut = 1.5,
       outputFps = 60,
     } = params;
 
@@ -74,8 +221,24 @@ export const stitchFinalExecutor: ActionExecutor = {
       };
     }
 
-    // Determine which clips to include
-    const clipCount = includeLoop ? Math.min(videos.length, 6) : Math.min(videos.length, 5);
+    // Determine which clips to include: one per frame transition, plus the loop clip
+    // (falls back to the clip list itself if frames aren't known)
+    const frames = context.getAsset("frames");
+    const frameCount = Array.isArray(frames) && frames.length > 0 ? frames.length : videos.length + 1;
+    const clipCount = Math.min(videos.length, includeLoop ? frameCount : frameCount - 1);
+
+    const missingClips = videos.slice(0, clipCount)
+      .map((clip, i) => (clip ? null : i + 1))
+      .filter((clipNum): clipNum is number => clipNum !== null);
+    if (missingClips.length > 0) {
+      return {
+        success: false,
+        error: `Missing clip${missingClips.length > 1 ? "s" : ""} ${missingClips.join(", ")}. Regenerate ${missingClips.length > 1 ? "them" : "it"} first.`,
+        errorCode: "MISSING_VIDEOS",
+        retryable: false,
+      };
+    }
+
     const clipsToStitch = videos.slice(0, clipCount);
 
     if (clipsToStitch.length < 2) {
@@ -87,67 +250,219 @@ export const stitchFinalExecutor: ActionExecutor = {
       };
     }
 
+    // Resolve the speed curve: a named easing, bezier control points or a speed map
+    // (customBezier is validated as [x1, y1, x2, y2] by the template schema)
+    const curveSpec =
+      curveFamily === "custom" ? (Array.isArray(customBezier) ? customBezier : DRAMATIC_SWOOP)
+        : curveFamily === "keyframes" ? speedKeyframes
+        : curveFamily === "cinematic" && !BEZIER_PRESETS[String(easingCurve)] ? "cinematic"
+        : easingCurve;
+    const parsedCurve = parseSpeedCurve(curveSpec);
+
+    // Per-clip overrides; rows past the last clip are ignored
+    const fieldErrors: ParamFieldErrors = {};
+    if ("error" in parsedCurve) {
+      fieldErrors[curveFamily === "keyframes" ? "speedKeyframes" : "easingCurve"] = parsedCurve.error;
+    }
+    const rows = Array.isArray(transitions) ? (transitions as Array<{ curve?: string; duration?: number }>) : [];
+    const clipCurves = clipsToStitch.map((_, i) => {
+      const spec = rows[i]?.curve?.trim();
+      if (!spec) return null;
+      const parsed = parseSpeedCurve(spec);
+      if ("error" in parsed) {
+        fieldErrors[`transitions.${i}.curve`] = parsed.error;
+        return null;
+      }
+      return parsed.curve;
+    });
+
+    if ("error" in parsedCurve || Object.keys(fieldErrors).length > 0) {
+      return {
+        success: false,
+        error: "Invalid speed curve",
+        errorCode: "VALIDATION_ERROR",
+        retryable: false,
+        fieldErrors,
+      };
+    }
+
+    // Music track (uploads are stored with absolute paths)
+    const audioPath = typeof audioTrack === "string" && audioTrack ? path.resolve(context.cwd, audioTrack) : null;
+    if (audioPath) {
+      try {
+        await fs.access(audioPath);
+      } catch {
+        return {
+          success: false,
+          error: "Music track not found. Upload it again.",
+          errorCode: "MISSING_AUDIO",
+          retryable: false,
+        };
+      }
+    }
+
+    const curve = parsedCurve.curve;
+    let clipDurations = clipsToStitch.map((_, i) => rows[i]?.duration ?? Number(clipDuration));
+    let customClips = clipsToStitch.filter((_, i) => clipCurves[i] || rows[i]?.duration !== undefined).length;
+
+    // Beat snapping moves each cut to the nearest beat, so every clip gets its own duration
+    let beatInfo = "";
+    if (audioPath && snapToBeats) {
+      context.emitProgress("final", "Detecting beats in music track...");
+      try {
+        // Analyze a little past the planned length so the last cut can move later
+        const span = clipDurations.reduce((sum, duration) => sum + duration, 0) + MAX_CLIP_DURATION;
+        const grid = await detectBeats(audioPath, Number(audioOffset), span);
+        if (grid) {
+          clipDurations = snapDurationsToBeats(clipDurations, grid.beats, MIN_CLIP_DURATION, MAX_CLIP_DURATION);
+          customClips = clipsToStitch.length;
+          beatInfo = ` at ${grid.bpm} BPM`;
+          console.log(`🎵 [STITCH] Snapped cuts to beats (${grid.bpm} BPM): ${clipDurations.join(", ")}s`);
+        } else {
+          console.log(`🎵 [STITCH] No steady beat found, keeping clip durations`);
+        }
+      } catch (error) {
+        // Snapping is a refinement; stitch with the planned durations if analysis fails
+        console.warn(`⚠️ [STITCH] Beat detection failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const curveLabel =
+      curve.type === "keyframes" ? `speed map ${formatSpeedCurve(curve)}`
+        : curveFamily === "custom" ? `cubic-bezier(${formatSpeedCurve(curve)})`
+        : String(easingCurve);
+
     const scriptPath = ".claude/skills/fashion-shoot-pipeline/scripts/stitch-videos-eased.ts";
-    // Output path relative to cwd (agent/) for static serving at /outputs
-    const outputPath = `outputs/final/fashion-video.mp4`;
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const outputPath = `${context.outputDir}/final/fashion-video.mp4`;
 
     console.log(`🎞️ [STITCH] Stitching final video:`);
     console.log(`   Clips: ${clipsToStitch.join(', ')}`);
     console.log(`   Output: ${outputPath}`);
-    console.log(`   Easing: ${easingCurve}`);
-
-    // Build args with multiple --clips
-    const args: string[] = [];
-    for (const clip of clipsToStitch) {
-      args.push("--clips", clip);
+    console.log(`   Easing: ${curveLabel}`);
+    if (customClips > 0) {
+      console.log(`   Per-clip overrides: ${customClips}`);
     }
-    args.push(
-      "--output", outputPath,
-      "--clip-duration", String(clipDuration),
-      "--output-fps", String(outputFps)
-    );
 
-    // Handle easing - dramaticSwoop is a custom bezier
-    if (easingCurve === "dramaticSwoop") {
-      args.push("--bezier", "0.85,0,0.15,1");
-    } else {
-      args.push("--easing", String(easingCurve));
-    }
+    // The stitch script takes one easing or bezier for every clip; speed maps, per-clip
+    // curves and durations (including beat-snapped ones) are retimed on the server
+    const retimeOnServer = customClips > 0 || curve.type === "keyframes";
 
-    context.emitProgress("final", `Stitching ${clipsToStitch.length} clips with ${easingCurve}...`);
+    context.emitProgress(
+      "final",
+      `Stitching ${clipsToStitch.length} clips with ${curveLabel}${customClips > 0 ? ` (${customClips} customized)` : ""}...`
+    );
 
     try {
-      const result = await context.runScript(scriptPath, args);
+      let artifact = outputPath;
+      // Real length of the stitched file (known up front only for server retimes)
+      let stitchedDuration: number | undefined;
+      if (retimeOnServer) {
+        try {
+          await fs.mkdir(path.join(context.cwd, context.outputDir, "final"), { recursive: true });
+          stitchedDuration = await stitchRetimedClips({
+            clips: clipsToStitch.map((clip, i) => ({
+              path: path.resolve(context.cwd, clip),
+              duration: clipDurations[i],
+              curve: clipCurves[i] ?? curve,
+            })),
+            outputPath: path.resolve(context.cwd, outputPath),
+            outputFps: Number(outputFps),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (message.includes("Cannot find ffmpeg") || message.includes("Cannot find ffprobe")) {
+            return {
+              success: false,
+              error: "FFmpeg not found. Install with: brew install ffmpeg",
+              errorCode: "MISSING_FFMPEG",
+              retryable: false,
+            };
+          }
+          return {
+            success: false,
+            error: message || "Video stitching failed",
+            errorCode: "STITCH_FAILED",
+            retryable: true,
+          };
+        }
+      } else {
+        // Build args with multiple --clips
+        const args: string[] = [];
+        for (const clip of clipsToStitch) {
+          args.push("--clips", clip);
+        }
+        args.push(
+          "--output", outputPath,
+          "--clip-duration", String(clipDuration),
+          "--output-fps", String(outputFps),
+          ...getCurveArgs(curve)
+        );
+
+        const result = await context.runScript(scriptPath, args);
+
+        if (result.exitCode !== 0) {
+          const errorMessage = result.stderr || result.stdout;
 
-      if (result.exitCode !== 0) {
-        const errorMessage = result.stderr || result.stdout;
+          if (errorMessage.includes("ffmpeg")) {
+            return {
+              success: false,
+              error: "FFmpeg not found. Install with: brew install ffmpeg",
+              errorCode: "MISSING_FFMPEG",
+              retryable: false,
+            };
+          }
 
-        if (errorMessage.includes("ffmpeg")) {
           return {
             success: false,
-            error: "FFmpeg not found. Install with: brew install ffmpeg",
-            errorCode: "MISSING_FFMPEG",
-            retryable: false,
+            error: errorMessage || "Video stitching failed",
+            errorCode: "STITCH_FAILED",
+            retryable: true,
           };
         }
-
-        return {
-          success: false,
-          error: errorMessage || "Video stitching failed",
-          errorCode: "STITCH_FAILED",
-          retryable: true,
-        };
+        artifact = result.artifacts?.[0] || outputPath;
       }
 
-      const artifact = result.artifacts?.[0] || outputPath;
-      const totalDuration = clipsToStitch.length * Number(clipDuration);
+      if (audioPath) {
+        context.emitProgress("final", "Adding music track...", 90);
+        try {
+          // The music is trimmed and faded to the file's real length, not the planned one
+          stitchedDuration ??= (await probeVideo(path.resolve(context.cwd, artifact))).duration;
+          await muxAudioTrack({
+            videoPath: path.resolve(context.cwd, artifact),
+            audioPath,
+            outputPath: path.resolve(context.cwd, artifact),
+            duration: stitchedDuration,
+            offset: Number(audioOffset),
+            fadeIn: Number(audioFadeIn),
+            fadeOut: Number(audioFadeOut),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (message.includes("Cannot find ffmpeg") || message.includes("Cannot find ffprobe")) {
+            return {
+              success: false,
+              error: "FFmpeg not found. Install with: brew install ffmpeg",
+              errorCode: "MISSING_FFMPEG",
+              retryable: false,
+            };
+          }
+          return {
+            success: false,
+            error: `Video stitched but adding music failed: ${message}`,
+            errorCode: "AUDIO_MUX_FAILED",
+            retryable: true,
+          };
+        }
+      }
 
       context.emitProgress("final", "Final video created successfully", 100);
 
+      const totalDuration = stitchedDuration ?? clipDurations.reduce((sum, duration) => sum + duration, 0);
+
       return {
         success: true,
         artifact,
-        message: `Final ${totalDuration.toFixed(1)}s fashion video created from ${clipsToStitch.length} clips`,
+        message: `Final ${totalDuration.toFixed(1)}s fashion video created from ${clipsToStitch.length} clips${audioPath ? ` with music${beatInfo}` : ""}`,
       };
     } catch (error) {
       return {
@@ -1,15 +1,24 @@
 // server/actions/types.ts
 // Action Instance Pattern - Type Definitions
 
-export type PipelineStage =
-  | "hero"
-  | "contact-sheet"
-  | "frames"
-  | "resize"
-  | "clips"
-  | "final";
+// Node ID in the workflow stage graph (see server/lib/pipeline-engine.ts),
+// e.g. "hero", "contact-sheet", "frames", "clips", "final"
+export type PipelineStage = string;
 
-export type ParamType = "enum" | "text" | "boolean" | "number";
+export type ParamType =
+  | "enum"
+  | "text"
+  | "boolean"
+  | "number"
+  | "list"
+  | "image"    // Path of a session asset or upload (value: string)
+  | "frames"   // Frame numbers in the current sequence, 1-based (value: number[])
+  | "bezier"   // Cubic-bezier control points (value: [x1, y1, x2, y2])
+  | "color"    // Hex color (value: "#rrggbb")
+  | "audio";   // Uploaded audio file path (value: string)
+
+// Where an image param's picker offers choices from
+export type ImageSource = "hero" | "contactSheet" | "frames" | "uploads";
 
 export interface ParamOption {
   value: string;
@@ -31,11 +40,33 @@ export interface ParamSchema {
   // For text type
   placeholder?: string;
   multiline?: boolean;
+  // For list type (repeating rows, value is an array of objects)
+  itemFields?: Record<string, ParamSchema>;
+  itemLabel?: string;       // Row label prefix, e.g. "Clip" → "Clip 1"
+  maxItems?: number;        // Also caps the frames multiselect
+  // For image type (default: all sources)
+  imageSources?: ImageSource[];
   // Display hints
   locked?: boolean;
   advanced?: boolean;
+  // Graph the value as a speed curve (enum/text/bezier holding a curve spec),
+  // with the time axis in seconds from another param
+  curvePreview?: { durationParam?: string };
+  // Conditions on other (top-level) params: shown / editable only when they match.
+  // Hidden or disabled params are dropped before the executor runs.
+  visibleWhen?: ParamCondition;
+  enabledWhen?: ParamCondition;
+  // Enum options that depend on another param's value (falls back to options)
+  dependentOptions?: {
+    on: string;
+    options: Record<string, ParamOption[]>;
+  };
 }
 
+// Param key → required value, or a list of accepted values, e.g. { cropMethod: "simple" }.
+// All keys must match; unset params are compared by their default.
+export type ParamCondition = Record<string, unknown>;
+
 export interface ActionTemplate {
   id: string;
   name: string;
@@ -43,6 +74,7 @@ export interface ActionTemplate {
   icon: string;
   stage: PipelineStage;
   parameters: Record<string, ParamSchema>;
+  previewable?: boolean;  // Executor implements preview (a quick still before the full run)
 }
 
 export interface ActionInstance {
@@ -64,6 +96,39 @@ export interface ActionResult {
   errorCode?: string;
   retryable?: boolean;
   duration?: number;
+  itemErrors?: ActionItemError[];
+  fieldErrors?: ParamFieldErrors;  // Set with errorCode VALIDATION_ERROR
+  cost?: CostEstimate;      // Provider spend for this run (set by ActionsManager if the executor doesn't)
+  downloads?: ActionDownload[];  // Deliverables offered as download links (e.g. export presets)
+}
+
+export interface ActionDownload {
+  id: string;      // Stable key, e.g. export preset "reels"
+  label: string;
+  path: string;    // Relative to cwd, like artifacts
+}
+
+// Per-param validation messages, keyed by param name ("clipMotions.2.prompt" for list rows)
+export type ParamFieldErrors = Record<string, string>;
+
+// Estimated provider spend (fal.ai images, Kling video) for one action run
+export interface CostEstimate {
+  totalUsd: number;
+  items: CostLineItem[];
+}
+
+export interface CostLineItem {
+  label: string;     // e.g. "Clip (5s)"
+  quantity: number;
+  unitUsd: number;
+  usd: number;
+}
+
+// Failure of one item in a batch action (e.g. one clip of generate_all_clips)
+export interface ActionItemError {
+  index: number;     // 1-based item number (clip number)
+  error: string;
+  errorCode?: string;
 }
 
 export interface ScriptResult {
@@ -76,9 +141,11 @@ export interface ScriptResult {
 export interface ActionContext {
   sessionId: string;
   cwd: string;
-  outputDir: string;
+  outputDir: string;  // Session output dir relative to cwd (outputs/<sessionId>)
   referenceImages: string[];
-  getAsset(type: "hero" | "contactSheet" | "frames" | "videos"): string | string[] | null;
+  // "frames" follows the frame sequence; "extractedFrames" is every frame in grid order;
+  // "originalFrames" are the extracted frames before upscale_frames (null if not upscaled)
+  getAsset(type: "hero" | "contactSheet" | "frames" | "extractedFrames" | "originalFrames" | "videos" | "finalVideo"): string | string[] | null;
   getPipelineStage(): PipelineStage;
   emitProgress(stage: string, message: string, progress?: number): void;
   runScript(scriptName: string, args: string[]): Promise<ScriptResult>;
@@ -91,6 +158,16 @@ export interface ActionExecutor {
     params: Record<string, unknown>,
     context: ActionContext
   ) => Promise<ActionResult>;
+  // Provider cost for the given params; omitted for local-only actions (ffmpeg, sharp)
+  estimateCost?: (
+    params: Record<string, unknown>,
+    context: Pick<ActionContext, "getAsset">
+  ) => CostEstimate;
+  // Cheap render of what execute would produce (e.g. a still frame); returns an image artifact
+  preview?: (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ) => Promise<ActionResult>;
 }
 
 // WebSocket message types - Client to Server
@@ -152,6 +229,8 @@ export interface ActionCompleteMessage {
     artifacts?: string[];
     message?: string;
     duration?: number;
+    itemErrors?: ActionItemError[];
+    cost?: CostEstimate;
   };
 }
 
@@ -182,3 +261,12 @@ export interface PendingContinuation {
   userParamChanges?: Record<string, { from: unknown; to: unknown }>;
   timestamp: Date;
 }
+
+// Persisted action state for one session (survives server restarts)
+
+export interface SessionActionsSnapshot {
+  sessionId: string;
+  instances: ActionInstance[];
+  pendingContinuation?: PendingContinuation;
+  savedAt: Date;
+}
@@ -0,0 +1,134 @@
+// server/actions/upscale-frames.ts
+// Action executor for upscaling extracted frames (and restoring faces) before clip generation
+
+import fs from "fs/promises";
+import path from "path";
+import { ActionExecutor, ActionResult, ActionContext, ActionItemError } from "./types.js";
+import { upscaleCost, totalCost } from "./pricing.js";
+import { getUpscaleProvider, getUpscaleProviderParams } from "../providers/index.js";
+
+export const upscaleFramesExecutor: ActionExecutor = {
+  template: {
+    id: "upscale_frames",
+    name: "Upscale Frames",
+    description: "Upscale the frames cropped from the contact sheet so clips start from detailed inputs",
+    icon: "🔍",
+    stage: "upscale",
+    parameters: {
+      scale: {
+        type: "enum",
+        label: "Scale",
+        description: "Output size relative to the extracted frames",
+        default: "2",
+        options: [
+          { value: "2", label: "2× (recommended for 2K contact sheets)" },
+          { value: "4", label: "4×" },
+        ],
+      },
+      ...getUpscaleProviderParams(),
+    },
+  },
+
+  execute: async (
+    params: Record<string, unknown>,
+    context: ActionContext
+  ): Promise<ActionResult> => {
+    const { scale = "2", faceRestore = true } = params;
+
+    const provider = getUpscaleProvider(params.provider);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown upscaler: ${params.provider}`,
+        errorCode: "UNKNOWN_PROVIDER",
+        retryable: false,
+      };
+    }
+
+    // Re-running always starts from the original crops, never from a previous upscale
+    const sources = context.getAsset("originalFrames") ?? context.getAsset("extractedFrames");
+    if (!sources || !Array.isArray(sources) || sources.length === 0) {
+      return {
+        success: false,
+        error: "No frames found. Extract frames first.",
+        errorCode: "MISSING_FRAMES",
+        retryable: false,
+      };
+    }
+
+    // Session output dir is relative to cwd (agent/), served at /outputs/<sessionId>
+    const framesDir = `${context.outputDir}/frames/`;
+    const restoreFaces = faceRestore === true && provider.supportsFaceRestore;
+
+    console.log(`🔍 [UPSCALE] Upscaling ${sources.length} frames:`);
+    console.log(`   Provider: ${provider.name}`);
+    console.log(`   Scale: ${scale}x${restoreFaces ? " + face restoration" : ""}`);
+    console.log(`   Frames dir: ${framesDir}`);
+
+    context.emitProgress("upscale", `Upscaling ${sources.length} frames (${scale}×)...`, 0);
+
+    // Frames are rewritten in place (grid order) so the frame sequence still applies
+    const artifacts: string[] = [];
+    const itemErrors: ActionItemError[] = [];
+    for (let i = 0; i < sources.length; i++) {
+      const outputPath = `${framesDir}frame-${i + 1}.png`;
+      const result = await provider.upscale(
+        { inputPath: sources[i], outputPath, scale: Number(scale), faceRestore: restoreFaces },
+        context
+      );
+
+      if (!result.success) {
+        if (result.error.code === "MISSING_API_KEY") {
+          return {
+            success: false,
+            error: result.error.message,
+            errorCode: "MISSING_API_KEY",
+            retryable: false,
+          };
+        }
+        // The frame keeps its original crop; clips can still be generated
+        itemErrors.push({ index: i + 1, error: result.error.message, errorCode: result.error.code });
+        await fs.copyFile(path.resolve(context.cwd, sources[i]), path.resolve(context.cwd, outputPath));
+      }
+      artifacts.push(outputPath);
+
+      context.emitProgress("upscale", `Frame ${i + 1}/${sources.length} ${result.success ? "upscaled" : "failed"}`, Math.round(((i + 1) / sources.length) * 100));
+    }
+
+    if (itemErrors.length === sources.length) {
+      return {
+        success: false,
+        error: itemErrors.map((item) => `Frame ${item.index}: ${item.error}`).join("; "),
+        errorCode: "ALL_FRAMES_FAILED",
+        retryable: true,
+        itemErrors,
+      };
+    }
+
+    const upscaledCount = sources.length - itemErrors.length;
+    if (itemErrors.length > 0) {
+      return {
+        success: true,
+        artifacts,
+        message: `Upscaled ${upscaledCount}/${sources.length} frames. Kept the original for ${itemErrors.map((item) => `frame ${item.index}`).join(", ")}`,
+        itemErrors,
+        // Only upscaled frames are billed
+        cost: provider.billable ? totalCost([upscaleCost("Frame upscale", upscaledCount)]) : totalCost([]),
+      };
+    }
+
+    return {
+      success: true,
+      artifacts,
+      message: `All ${sources.length} frames upscaled ${scale}×${restoreFaces ? " with face restoration" : ""}`,
+    };
+  },
+
+  estimateCost: (params, context) => {
+    if (getUpscaleProvider(params.provider)?.billable === false) {
+      return totalCost([]);
+    }
+    const frames = context.getAsset("originalFrames") ?? context.getAsset("extractedFrames");
+    return totalCost([upscaleCost("Frame upscale", Array.isArray(frames) ? frames.length : 0)]);
+  },
+};
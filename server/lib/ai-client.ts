@@ -6,6 +6,7 @@ import { resolve } from 'path';
 import { readFileSync, existsSync } from 'fs';
 import { EventEmitter } from 'events';
 import { SessionManager } from './session-manager.js';
+import { workflowRegistry } from './workflow-registry.js';
 import { ORCHESTRATOR_SYSTEM_PROMPT } from './orchestrator-prompt.js';
 
 // Action proposal event (from action-proposer skill)
@@ -63,9 +64,10 @@ function parseActionProposal(output: string): ActionProposal | null {
 /**
  * Create hooks for the action-based workflow
  * - PreToolUse: Block direct script execution
- * - PostToolUse: Intercept action proposals from action-proposer skill
+ * - PostToolUse: Intercept action proposals from action-proposer skill,
+ *   rejecting actions outside the session's workflow or whose inputs don't exist yet
  */
-function createActionHooks(sessionId: string) {
+function createActionHooks(sessionId: string, sessionManager: SessionManager) {
   return {
     PreToolUse: [{
       hooks: [async (input: any) => {
@@ -117,6 +119,33 @@ The user will see an ActionCard with editable parameters and control execution.`
         // Check for action proposal
         const proposal = parseActionProposal(output);
         if (proposal) {
+          const workflow = workflowRegistry.resolve(sessionManager.getWorkflowId(sessionId));
+
+          // Only offer actions that belong to the session's workflow
+          if (!workflow.allowedActions.includes(proposal.templateId)) {
+            console.log(`⛔ [ACTION PROPOSAL] ${proposal.templateId} not in workflow ${workflow.config.id}`);
+            return {
+              continue: true as const,
+              hookSpecificOutput: {
+                hookEventName: 'PostToolUse' as const,
+                additionalContext: `The ${proposal.templateId} action is not available in the "${workflow.config.name}" workflow. Available actions: ${workflow.allowedActions.join(', ')}.`
+              }
+            };
+          }
+
+          // Only offer the ActionCard when the action's inputs exist
+          const inputCheck = workflow.engine.checkInputs(proposal.templateId, sessionManager.getSessionAssets(sessionId));
+          if (!inputCheck.ok) {
+            console.log(`⛔ [ACTION PROPOSAL] ${proposal.templateId} rejected: ${inputCheck.message}`);
+            return {
+              continue: true as const,
+              hookSpecificOutput: {
+                hookEventName: 'PostToolUse' as const,
+                additionalContext: `The ${proposal.templateId} action was NOT shown to the user: ${inputCheck.message}. Propose the action that produces the missing input instead.`
+              }
+            };
+          }
+
           console.log(`📋 [ACTION PROPOSAL] ${proposal.templateId}: ${proposal.label}`);
           console.log(`   Instance: ${proposal.instanceId}`);
 
@@ -306,7 +335,7 @@ export class AIClient {
       systemPrompt,
       includePartialMessages: true,  // Enable real-time token streaming
       abortController,
-      hooks: createActionHooks(session.id)
+      hooks: createActionHooks(session.id, this.sessionManager)
     };
 
     console.log(`🔄 Query with session ${session.id}`, {
@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Asset Versions - Keeps every generation of a pipeline slot
+ *
+ * Executors always write to fixed paths in the session's output dir (hero.png, videos/video-N.mp4),
+ * so each result is copied to <outputDir>/versions/<slot>/ before the next run overwrites it.
+ * SessionManager tracks the versions and which one is active per slot.
+ */
+
+export type AssetSlotType = 'hero' | 'contactSheet' | 'frame' | 'video' | 'finalVideo';
+
+// Versioned copies live under the session's output dir so /outputs serves them
+const VERSIONS_DIR = 'versions';
+
+/**
+ * Slot key for an asset: 'hero', 'contactSheet', 'finalVideo', 'frame-N', 'video-N' (1-based)
+ */
+export function getAssetSlot(assetType: AssetSlotType, index?: number): string {
+  if (assetType === 'frame' || assetType === 'video') {
+    return `${assetType}-${(index ?? 0) + 1}`;
+  }
+  return assetType;
+}
+
+/**
+ * Inverse of getAssetSlot; returns null for unknown slot keys
+ */
+export function parseAssetSlot(slot: string): { assetType: AssetSlotType; index?: number } | null {
+  if (slot === 'hero' || slot === 'contactSheet' || slot === 'finalVideo') {
+    return { assetType: slot };
+  }
+  const match = /^(frame|video)-(\d+)$/.exec(slot);
+  if (match && Number(match[2]) > 0) {
+    return { assetType: match[1] as 'frame' | 'video', index: Number(match[2]) - 1 };
+  }
+  return null;
+}
+
+/**
+ * Fixed path executors write a slot to, relative to the session's output dir.
+ * finalVideo has none: stitching and overlays write different files.
+ */
+export function getWorkingPath(slot: string): string | null {
+  const parsed = parseAssetSlot(slot);
+  switch (parsed?.assetType) {
+    case 'hero':
+      return 'hero.png';
+    case 'contactSheet':
+      return 'contact-sheet.png';
+    case 'frame':
+      return `frames/frame-${(parsed.index ?? 0) + 1}.png`;
+    case 'video':
+      return `videos/video-${(parsed.index ?? 0) + 1}.mp4`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Copy an artifact to its versioned path (relative to the agent dir, like outputDir)
+ * Falls back to the original path if the copy fails, so a missing file
+ * never breaks the action result.
+ */
+export async function snapshotAsset(
+  agentDir: string,
+  outputDir: string,
+  artifact: string,
+  slot: string,
+  version: number
+): Promise<string> {
+  const source = path.isAbsolute(artifact) ? artifact : path.join(agentDir, artifact);
+  const ext = path.extname(artifact);
+  const versionedPath = `${outputDir}/${VERSIONS_DIR}/${slot}/v${version}${ext}`;
+
+  try {
+    await fs.mkdir(path.join(agentDir, outputDir, VERSIONS_DIR, slot), { recursive: true });
+    await fs.copyFile(source, path.join(agentDir, versionedPath));
+    return versionedPath;
+  } catch (error) {
+    console.error(`⚠️ Failed to snapshot ${artifact} as ${slot} v${version}:`, error instanceof Error ? error.message : error);
+    return artifact;
+  }
+}
+
+/**
+ * Param changes between two versions (keys present in either)
+ */
+export function diffParams(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+      changes[key] = { from: from[key], to: to[key] };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs/promises';
+import ffmpeg from 'fluent-ffmpeg';
+import { runFfmpeg } from '../providers/ffmpeg.js';
+
+/**
+ * Audio Track - Music for the final stitch
+ *
+ * Beat detection decodes the track to mono PCM, builds an onset envelope and picks the
+ * tempo/phase that best lines up with it. Muxing trims the track to the video length
+ * and fades it in and out.
+ */
+
+export interface BeatGrid {
+  bpm: number;
+  beats: number[];  // Seconds from the start of the used audio (after offset)
+}
+
+export interface AudioMuxOptions {
+  videoPath: string;   // Absolute paths
+  audioPath: string;
+  outputPath: string;
+  duration: number;    // Video length in seconds; the audio is trimmed or padded to it
+  offset?: number;     // Start position in the track
+  fadeIn?: number;
+  fadeOut?: number;
+}
+
+const SAMPLE_RATE = 11025;
+const HOP = 256;  // ~23ms per onset frame
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Onset autocorrelation at the tempo lag below this means there's no pulse to snap to
+const MIN_PULSE_CORRELATION = 0.1;
+
+/**
+ * Decode a section of a track to mono float samples
+ */
+function decodeAudio(audioPath: string, offset: number, duration: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = ffmpeg(audioPath)
+      .seekInput(offset)
+      .duration(duration)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(SAMPLE_RATE)
+      .format('f32le')
+      .on('error', (error: Error) => reject(error))
+      .pipe();
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const data = Buffer.concat(chunks);
+      // Copy into an aligned buffer; Buffer.concat may return an unaligned view
+      const samples = new Float32Array(Math.floor(data.length / 4));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readFloatLE(i * 4);
+      }
+      resolve(samples);
+    });
+    stream.on('error', (error: Error) => reject(error));
+  });
+}
+
+/**
+ * Positive change in log energy per frame (a cheap onset strength)
+ */
+function getOnsetEnvelope(samples: Float32Array): Float32Array {
+  const frames = Math.floor(samples.length / HOP);
+  const envelope = new Float32Array(frames);
+  let previous = 0;
+  for (let f = 0; f < frames; f++) {
+    let energy = 0;
+    for (let i = f * HOP; i < (f + 1) * HOP; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const level = Math.log1p(energy * 100);
+    envelope[f] = Math.max(0, level - previous);
+    previous = level;
+  }
+  return envelope;
+}
+
+/**
+ * Estimate tempo and beat positions for the part of the track that will be used.
+ * Returns null when no steady beat is found (e.g. ambient tracks).
+ */
+export async function detectBeats(audioPath: string, offset: number, duration: number): Promise<BeatGrid | null> {
+  const samples = await decodeAudio(audioPath, offset, duration);
+  const envelope = getOnsetEnvelope(samples);
+  const framesPerSecond = SAMPLE_RATE / HOP;
+
+  const minLag = Math.floor((60 / MAX_BPM) * framesPerSecond);
+  const maxLag = Math.ceil((60 / MIN_BPM) * framesPerSecond);
+  if (envelope.length < maxLag * 4) return null;
+
+  // Mean-removed so noise correlates to ~0 and a real pulse stands out
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+  const centered = envelope.map((value) => value - mean);
+  const variance = centered.reduce((sum, value) => sum + value * value, 0) / centered.length;
+  if (variance === 0) return null;
+
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) {
+      sum += centered[i] * centered[i - lag];
+    }
+    return sum / (centered.length - lag) / variance;
+  };
+
+  // Autocorrelation, gently weighted towards ~120 BPM to avoid half/double tempo picks
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const score = correlation(lag) * Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (correlation(bestLag) < MIN_PULSE_CORRELATION) return null;
+
+  // Refine to a sub-frame period and find the phase together: the beat train that
+  // collects the most onset strength wins (keeps beats from drifting over a long track)
+  let period = bestLag;
+  let bestPhase = 0;
+  let bestTrainScore = -1;
+  for (let candidate = bestLag - 1; candidate <= bestLag + 1; candidate += 0.05) {
+    for (let phase = 0; phase < candidate; phase += 0.5) {
+      let sum = 0;
+      let count = 0;
+      for (let i = phase; i < envelope.length; i += candidate) {
+        sum += envelope[Math.round(i)] ?? 0;
+        count++;
+      }
+      if (sum / count > bestTrainScore) {
+        bestTrainScore = sum / count;
+        period = candidate;
+        bestPhase = phase;
+      }
+    }
+  }
+
+  const beats: number[] = [];
+  for (let i = bestPhase; i < envelope.length; i += period) {
+    beats.push(Math.round((i / framesPerSecond) * 1000) / 1000);
+  }
+  return { bpm: Math.round(((60 * framesPerSecond) / period) * 10) / 10, beats };
+}
+
+/**
+ * Move each cut (end of a clip) to the nearest beat, keeping every clip within [min, max].
+ * Cuts with no beat in range keep their original position.
+ */
+export function snapDurationsToBeats(durations: number[], beats: number[], min: number, max: number): number[] {
+  const snapped: number[] = [];
+  let cut = 0;
+  for (const duration of durations) {
+    const target = cut + duration;
+    let best = target;
+    let bestDistance = Infinity;
+    for (const beat of beats) {
+      const length = beat - cut;
+      if (length < min || length > max) continue;
+      const distance = Math.abs(beat - target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = beat;
+      }
+    }
+    snapped.push(Math.round((best - cut) * 1000) / 1000);
+    cut = best;
+  }
+  return snapped;
+}
+
+/**
+ * Add a music track to a (silent) video, trimmed/padded to the video length with fades.
+ * The video stream is copied, so this is quick even for long outputs.
+ */
+export async function muxAudioTrack(options: AudioMuxOptions): Promise<void> {
+  const { videoPath, audioPath, outputPath, duration, offset = 0, fadeIn = 0, fadeOut = 0 } = options;
+  const filters = ['apad'];
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${fadeIn}`);
+  }
+  if (fadeOut > 0) {
+    filters.push(`afade=t=out:st=${Math.max(0, duration - fadeOut)}:d=${fadeOut}`);
+  }
+
+  // Write next to the output and swap in, so the video can be muxed in place
+  const tempPath = outputPath.replace(/\.mp4$/, '.audio.mp4');
+  await runFfmpeg(
+    ffmpeg()
+      .input(videoPath)
+      .input(audioPath)
+      .inputOptions([`-ss ${offset}`])
+      .audioFilters(filters)
+      .outputOptions([
+        '-map 0:v:0',
+        '-map 1:a:0',
+        '-c:v copy',
+        '-c:a aac',
+        '-b:a 192k',
+        `-t ${duration}`,
+        '-movflags +faststart',
+      ])
+      .output(tempPath)
+  );
+  await fs.rename(tempPath, outputPath);
+}
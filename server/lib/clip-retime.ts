@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import ffmpeg from 'fluent-ffmpeg';
+import { probeVideo, runFfmpeg } from '../providers/ffmpeg.js';
+import { getCurveProgress, type SpeedCurve } from './speed-curves.js';
+
+/**
+ * Clip Retime - Per-clip speed curves and durations, stitched with ffmpeg
+ *
+ * A curve maps output time to source progress; setpts needs the inverse (source time →
+ * output time). The curve is sampled into knots and each frame's timestamp is remapped
+ * with a piecewise-linear expression, then resampled to the output rate and cut to the
+ * clip's exact length. All clips are concatenated in one filtergraph.
+ */
+
+export interface RetimeClip {
+  path: string;       // Absolute path
+  duration: number;   // Output seconds
+  curve: SpeedCurve;
+}
+
+export interface RetimeOptions {
+  clips: RetimeClip[];
+  outputPath: string;  // Absolute path
+  outputFps: number;
+  bitrate?: string;
+}
+
+// Knots per clip; enough that the steps in speed aren't visible at 1-3s per clip
+const KNOTS = 24;
+
+const round = (value: number) => Math.round(value * 100000) / 100000;
+
+/**
+ * setpts expression (seconds) mapping a clip's source time to output time.
+ * Progress is kept monotonic, so overshooting curves (back, elastic) hold instead of
+ * rewinding; where the source doesn't advance, the previous frame is held.
+ */
+function getRetimeExpression(curve: SpeedCurve, sourceDuration: number, outputDuration: number): string {
+  const knots: Array<{ source: number; output: number }> = [{ source: 0, output: 0 }];
+  let reached = 0;
+  for (let i = 1; i <= KNOTS; i++) {
+    reached = i === KNOTS ? 1 : Math.max(reached, Math.min(1, getCurveProgress(curve, i / KNOTS)));
+    knots.push({ source: reached * sourceDuration, output: (i / KNOTS) * outputDuration });
+  }
+
+  // Built from the last piece back, so the first piece whose end is past T wins
+  let expression = String(round(outputDuration));
+  for (let i = knots.length - 1; i > 0; i--) {
+    const a = knots[i - 1];
+    const b = knots[i];
+    if (b.source - a.source <= 1e-6) continue;
+    const slope = (b.output - a.output) / (b.source - a.source);
+    expression = `if(lt(T-STARTT,${round(b.source)}),${round(a.output)}+(T-STARTT-${round(a.source)})*${round(slope)},${expression})`;
+  }
+  // The first frame always starts the clip, even when the curve starts at zero speed
+  return `if(lte(T-STARTT,0),0,${expression})`;
+}
+
+/**
+ * Stitch clips with their own speed curve and output duration.
+ * Returns the stitched duration in seconds.
+ */
+export async function stitchRetimedClips(options: RetimeOptions): Promise<number> {
+  const { clips, outputPath, outputFps, bitrate = '25M' } = options;
+  const infos = await Promise.all(clips.map((clip) => probeVideo(clip.path)));
+  // Concat needs one frame size; every clip is fitted to the first one
+  const { width, height } = infos[0];
+
+  const filters: string[] = [];
+  const labels: string[] = [];
+  let cut = 0;
+  let cutFrame = 0;
+  clips.forEach((clip, i) => {
+    // The last source frame starts one frame before the end; it lands at the clip's end and is held
+    const sourceDuration = Math.max(0, infos[i].duration - 1 / infos[i].fps);
+    // Cuts are rounded to whole output frames from the start of the video, not per clip,
+    // so beat-snapped cuts stay within half a frame of their beat however many clips precede them
+    cut += clip.duration;
+    const frames = Math.max(1, Math.round(cut * outputFps) - cutFrame);
+    cutFrame += frames;
+    const duration = frames / outputFps;
+    filters.push(
+      `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1,` +
+      `setpts='(${getRetimeExpression(clip.curve, sourceDuration, duration)})/TB',` +
+      `fps=fps=${outputFps}:round=up,tpad=stop_mode=clone:stop_duration=${round(duration)},trim=end_frame=${frames},setpts=PTS-STARTPTS[r${i}]`
+    );
+    labels.push(`[r${i}]`);
+  });
+  filters.push(`${labels.join('')}concat=n=${labels.length}:v=1:a=0,format=yuv420p[v]`);
+
+  const command = ffmpeg();
+  for (const clip of clips) {
+    command.input(clip.path);
+  }
+
+  // Render next to the output and swap in, so a failed run never leaves a partial file
+  const tempPath = outputPath.replace(/\.mp4$/, '.retime.mp4');
+  await runFfmpeg(
+    command
+      .complexFilter(filters.join(';'))
+      .outputOptions(['-map [v]', '-vsync passthrough', '-c:v libx264', `-b:v ${bitrate}`, '-movflags +faststart'])
+      .output(tempPath)
+  );
+  await fs.rename(tempPath, outputPath);
+
+  return (await probeVideo(outputPath)).duration;
+}
@@ -1,9 +1,76 @@
 /**
  * Fashion Shoot Agent - Orchestrator System Prompt
  * Action-based workflow: propose actions, user controls execution
+ *
+ * The pipeline, action and preset tables are workflow-specific; see
+ * prompt-generator.ts for how they are built from workflows/*.json.
  */
 
-export const ORCHESTRATOR_SYSTEM_PROMPT = `# Creative Director
+import { CAMERA_PRESETS } from '../actions/camera-presets.js';
+
+export interface OrchestratorPromptSections {
+  pipelineTable?: string;
+  actionsTable?: string;
+  presetTable?: string;
+  rules?: string[];
+}
+
+const DEFAULT_PIPELINE_TABLE = `| Step | Action | What User Sees |
+|------|--------|----------------|
+| 1 | Propose generate_hero | ActionCard: prompt, aspectRatio, resolution |
+| 2 | Propose generate_contact_sheet | ActionCard: prompt, aspectRatio, resolution |
+| 3 | Propose extract_frames | ActionCard: cropMethod, rows, cols |
+| 4 | (Optional) Propose resize_frames | ActionCard: aspectRatio |
+| 5 | (Optional) Propose reorder_frames | ActionCard: order |
+| 6 | (Optional) Propose upscale_frames | ActionCard: scale, faceRestore |
+| 7 | Propose generate_all_clips | ActionCard: motionPrompt, clipMotions, duration, includeLoop |
+| 8 | Propose stitch_final | ActionCard: clipDuration, easingCurve |
+| 9 | (Optional) Propose add_overlays | ActionCard: logo, product lower-third, end card, preview |
+| 10 | (Optional) Propose export_video | ActionCard: channel presets, reframing |`;
+
+const DEFAULT_ACTIONS_TABLE = `| Action | When to Use |
+|--------|-------------|
+| \`generate_hero\` | Create full-body editorial hero shot |
+| \`generate_contact_sheet\` | Create a grid of camera angles (2×3 by default) |
+| \`extract_frames\` | Extract individual frames from grid |
+| \`resize_frames\` | Change aspect ratio (16:9 for YouTube, 9:16 for TikTok) |
+| \`reorder_frames\` | Change the frame sequence or drop bad frames before clips |
+| \`edit_image\` | Small local fix on the hero, contact sheet or a frame (remove a logo, fix a hand) |
+| \`regenerate_frame\` | Fix one frame (wrong colour, extra limb) without regenerating the contact sheet |
+| \`upscale_frames\` | Add detail to the cropped frames (and restore faces) before clips |
+| \`generate_video_clip\` | Create single clip (use generate_all_clips instead) |
+| \`generate_all_clips\` | Create all clips (frames - 1, plus optional loop) in batch |
+| \`stitch_final\` | Combine clips into final video with speed curves |
+| \`add_overlays\` | Brand the final video with a logo, product name/price and an end card |
+| \`export_video\` | Export the final video for Reels/TikTok, feed, YouTube, GIF and WebM |`;
+
+const DEFAULT_PRESET_TABLE = `| User Vibe | Pose | Background |
+|-----------|------|------------|
+| edgy, dramatic, bold | editorial-drama | studio-black |
+| casual, relaxed, natural | relaxed-natural | studio-grey |
+| street, urban, city | street-walk | outdoor-urban |
+| professional, clean | confident-standing | studio-white |
+| industrial, raw | leaning-casual | industrial |
+| warm, soft, intimate | seated-editorial | warm-daylight |
+| colorful, vibrant | editorial-drama | color-gel |
+| *(no clear preference)* | confident-standing | studio-grey |`;
+
+const CAMERA_PRESET_LIST = Object.entries(CAMERA_PRESETS)
+  .map(([id, preset]) => `\`${id}\` (${preset.label})`)
+  .join(', ');
+
+/**
+ * Build the orchestrator prompt, substituting workflow-specific sections
+ */
+export function buildOrchestratorPrompt(sections: OrchestratorPromptSections = {}): string {
+  const pipelineTable = sections.pipelineTable || DEFAULT_PIPELINE_TABLE;
+  const actionsTable = sections.actionsTable || DEFAULT_ACTIONS_TABLE;
+  const presetTable = sections.presetTable || DEFAULT_PRESET_TABLE;
+  const workflowRules = sections.rules && sections.rules.length > 0
+    ? `\n## Workflow Rules\n\n${sections.rules.map(rule => `- ${rule}`).join('\n')}\n`
+    : '';
+
+  return `# Creative Director
 
 You are an AI creative director helping users create professional fashion videos that capture their creative vision.
 
@@ -97,41 +164,33 @@ npx tsx .claude/skills/fashion-shoot-pipeline/scripts/generate-image.ts --prompt
 
 ## Typical Pipeline
 
-| Step | Action | What User Sees |
-|------|--------|----------------|
-| 1 | Propose generate_hero | ActionCard: prompt, aspectRatio, resolution |
-| 2 | Propose generate_contact_sheet | ActionCard: prompt, aspectRatio, resolution |
-| 3 | Propose extract_frames | ActionCard: cropMethod, rows, cols |
-| 4 | (Optional) Propose resize_frames | ActionCard: aspectRatio |
-| 5 | Propose generate_all_clips | ActionCard: motionPrompt, duration, includeLoop |
-| 6 | Propose stitch_final | ActionCard: clipDuration, easingCurve |
+${pipelineTable}
 
 If the user just wants a hero image, stop there. Adapt to their needs.
 
 ## Available Actions
 
-| Action | When to Use |
-|--------|-------------|
-| \`generate_hero\` | Create full-body editorial hero shot |
-| \`generate_contact_sheet\` | Create 2×3 grid of 6 camera angles |
-| \`extract_frames\` | Extract individual frames from grid |
-| \`resize_frames\` | Change aspect ratio (16:9 for YouTube, 9:16 for TikTok) |
-| \`generate_video_clip\` | Create single clip (use generate_all_clips instead) |
-| \`generate_all_clips\` | Create all 5 video clips in batch |
-| \`stitch_final\` | Combine clips into final video with speed curves |
+${actionsTable}
 
 ## Preset Matching Guide
 
-| User Vibe | Pose | Background |
-|-----------|------|------------|
-| edgy, dramatic, bold | editorial-drama | studio-black |
-| casual, relaxed, natural | relaxed-natural | studio-grey |
-| street, urban, city | street-walk | outdoor-urban |
-| professional, clean | confident-standing | studio-white |
-| industrial, raw | leaning-casual | industrial |
-| warm, soft, intimate | seated-editorial | warm-daylight |
-| colorful, vibrant | editorial-drama | color-gel |
-| *(no clear preference)* | confident-standing | studio-grey |
+${presetTable}
+
+## Camera Movements Per Clip
+
+\`generate_all_clips\` takes a \`clipMotions\` list with one row per clip (row 1 = frame 1 → frame 2):
+
+\`\`\`json
+"clipMotions": [
+  {"preset": "dolly-in", "prompt": "slow push toward the face"},
+  {"preset": "arc-right", "prompt": ""},
+  {"preset": "", "prompt": "camera tilts up revealing the coat"}
+]
+\`\`\`
+
+- Presets: ${CAMERA_PRESET_LIST}
+- Read ../docs/CAMERA-MOVEMENTS-REFERENCE.md for what each move feels like, and vary moves between clips
+- Clips without a row (or with an empty row) use \`motionPrompt\`
 
 ## Handling User Feedback
 
@@ -141,7 +200,7 @@ When you receive continuation feedback:
 \`\`\`
 [Action Completed: Generate Hero Shot]
 Result: SUCCESS
-Artifact: outputs/hero.png
+Artifact: outputs/<sessionId>/hero.png
 Duration: 12.3s
 
 User wants to continue. Comment on result and suggest next step.
@@ -156,7 +215,7 @@ User wants to continue. Comment on result and suggest next step.
 \`\`\`
 [Action Completed: Generate Hero Shot]
 Result: SUCCESS
-Artifact: outputs/hero.png
+Artifact: outputs/<sessionId>/hero.png
 Duration: 12.3s
 
 User Parameter Changes:
@@ -194,8 +253,11 @@ When user requests changes at any point:
 - "use simple cropping" → Propose extract_frames with cropMethod: "simple"
 
 **Regenerate specific elements:**
-- "regenerate frame 3" → This requires re-proposing extract_frames
-- "try a different video style" → Propose generate_all_clips with different motionPrompt
+- "remove the logo on the hero's jacket" → Propose edit_image with target: "hero", prompt: "remove the logo from the jacket" (the user can paint a mask in the image viewer)
+- "frame 3 has the wrong dress color" → Propose regenerate_frame with frameNumber: 3, prompt: "the dress is deep emerald green"
+- "drop frame 4" / "start with frame 3" → Propose reorder_frames with order: "3, 1, 2, 5, 6"
+- "try a different video style" → Propose generate_all_clips with different motionPrompt or clipMotions
+- "orbit on clip 2" → Propose generate_all_clips with clipMotions[1].preset: "half-orbit"
 
 ## Rules
 
@@ -206,4 +268,7 @@ When user requests changes at any point:
 5. **Activate skills first** - Use Skill tool before calling skill commands
 6. **Pass reference images** - Set useReferenceImages: true for hero and contact sheet
 7. **Never skip user approval** - Every generation requires user to click "Generate"
-`;
+${workflowRules}`;
+}
+
+export const ORCHESTRATOR_SYSTEM_PROMPT = buildOrchestratorPrompt();
@@ -0,0 +1,275 @@
+import { readFileSync } from 'fs';
+import type { PipelineAssets } from './session-manager.js';
+
+/**
+ * PipelineEngine - Declarative stage graph for the action-based workflow
+ *
+ * The graph is read from the "graph" section of workflows/*.json
+ * (loaded by WorkflowRegistry):
+ * - nodes are action templates and the assets they produce
+ * - edges are asset dependencies between nodes (from produces, to consumes)
+ *
+ * The engine answers three questions the server used to hardcode:
+ * can this action run yet, which stage is the session at, and how far along is it.
+ */
+
+// Asset slots an action can produce or consume (keys of PipelineAssets)
+export type PipelineAssetKey = 'hero' | 'contactSheet' | 'frames' | 'videos' | 'finalVideo' | 'exports';
+
+export interface PipelineNode {
+  id: string;
+  action: string;            // Action template ID (e.g. "generate_hero")
+  label?: string;
+  produces: PipelineAssetKey[];
+  optional?: boolean;        // Optional nodes don't count towards progress
+}
+
+export interface PipelineEdge {
+  from: string;              // Node that produces the asset
+  to: string;                // Node that consumes it
+  asset: PipelineAssetKey;
+}
+
+export interface PipelineGraph {
+  nodes: PipelineNode[];
+  edges: PipelineEdge[];
+}
+
+export type InputCheckResult =
+  | { ok: true }
+  | { ok: false; missing: PipelineAssetKey[]; message: string };
+
+export interface PipelineNodeStatus {
+  id: string;
+  action: string;
+  label?: string;
+  optional: boolean;
+  complete: boolean;
+  ready: boolean;
+}
+
+const ASSET_KEYS: PipelineAssetKey[] = ['hero', 'contactSheet', 'frames', 'videos', 'finalVideo', 'exports'];
+
+export class PipelineEngine {
+  private nodes: Map<string, PipelineNode> = new Map();
+  private edges: PipelineEdge[];
+  private order: PipelineNode[];
+
+  constructor(graph: PipelineGraph) {
+    for (const node of graph.nodes) {
+      if (this.nodes.has(node.id)) {
+        throw new Error(`Duplicate pipeline node: ${node.id}`);
+      }
+      for (const asset of node.produces) {
+        if (!ASSET_KEYS.includes(asset)) {
+          throw new Error(`Node ${node.id} produces unknown asset: ${asset}`);
+        }
+      }
+      this.nodes.set(node.id, node);
+    }
+
+    for (const edge of graph.edges) {
+      const from = this.nodes.get(edge.from);
+      if (!from || !this.nodes.has(edge.to)) {
+        throw new Error(`Pipeline edge references unknown node: ${edge.from} → ${edge.to}`);
+      }
+      if (!from.produces.includes(edge.asset)) {
+        throw new Error(`Node ${edge.from} does not produce ${edge.asset} (edge to ${edge.to})`);
+      }
+    }
+
+    this.edges = graph.edges;
+    this.order = this.topologicalSort();
+  }
+
+  /**
+   * Load the graph section of a workflow config file
+   */
+  static fromWorkflowFile(filePath: string): PipelineEngine {
+    const config = JSON.parse(readFileSync(filePath, 'utf-8'));
+    if (!config.graph) {
+      throw new Error(`Workflow ${filePath} has no "graph" section`);
+    }
+    return new PipelineEngine(config.graph as PipelineGraph);
+  }
+
+  /**
+   * Nodes in dependency order
+   */
+  getNodes(): PipelineNode[] {
+    return [...this.order];
+  }
+
+  /**
+   * Find the node that runs a given action template
+   */
+  getNodeForAction(templateId: string): PipelineNode | undefined {
+    return this.order.find(node => node.action === templateId);
+  }
+
+  /**
+   * Assets produced by a node and everything upstream of it
+   * Used when forking a session at a stage; null for unknown nodes.
+   */
+  getAssetsUpTo(nodeId: string): PipelineAssetKey[] | null {
+    if (!this.nodes.has(nodeId)) {
+      return null;
+    }
+
+    const visited = new Set<string>();
+    const pending = [nodeId];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      for (const edge of this.edges) {
+        if (edge.to === id) {
+          pending.push(edge.from);
+        }
+      }
+    }
+
+    const assets = new Set<PipelineAssetKey>();
+    for (const node of this.order) {
+      if (visited.has(node.id)) {
+        node.produces.forEach(asset => assets.add(asset));
+      }
+    }
+    return Array.from(assets);
+  }
+
+  /**
+   * Assets a node consumes (union of incoming edges)
+   */
+  getRequiredInputs(nodeId: string): PipelineAssetKey[] {
+    const inputs = new Set<PipelineAssetKey>();
+    for (const edge of this.edges) {
+      if (edge.to === nodeId) {
+        inputs.add(edge.asset);
+      }
+    }
+    return Array.from(inputs);
+  }
+
+  /**
+   * Check that every input of an action exists before it is offered to the user
+   * Actions that aren't part of the graph are always allowed.
+   */
+  checkInputs(templateId: string, assets: PipelineAssets | null): InputCheckResult {
+    const node = this.getNodeForAction(templateId);
+    if (!node) {
+      return { ok: true };
+    }
+
+    const missing = this.getRequiredInputs(node.id).filter(asset => !hasAsset(assets, asset));
+    if (missing.length === 0) {
+      return { ok: true };
+    }
+
+    const producers = missing.map(asset => {
+      const producer = this.order.find(n => n.produces.includes(asset) && !n.optional);
+      return producer ? `${asset} (run ${producer.action} first)` : asset;
+    });
+
+    return {
+      ok: false,
+      missing,
+      message: `${templateId} needs ${producers.join(', ')}`,
+    };
+  }
+
+  /**
+   * A node is complete once every asset it produces exists
+   */
+  isNodeComplete(node: PipelineNode, assets: PipelineAssets | null): boolean {
+    return node.produces.every(asset => hasAsset(assets, asset));
+  }
+
+  /**
+   * Per-node status for clients (complete / ready to run)
+   */
+  getNodeStatuses(assets: PipelineAssets | null): PipelineNodeStatus[] {
+    return this.order.map(node => ({
+      id: node.id,
+      action: node.action,
+      label: node.label,
+      optional: !!node.optional,
+      complete: this.isNodeComplete(node, assets),
+      ready: this.checkInputs(node.action, assets).ok,
+    }));
+  }
+
+  /**
+   * First required node that hasn't produced its assets yet
+   * Returns the last node once everything is complete.
+   */
+  getCurrentStage(assets: PipelineAssets | null): string {
+    const required = this.order.filter(node => !node.optional);
+    const next = required.find(node => !this.isNodeComplete(node, assets));
+    return (next || required[required.length - 1] || this.order[0]).id;
+  }
+
+  /**
+   * Percentage of required nodes whose outputs exist
+   */
+  getProgress(assets: PipelineAssets | null): number {
+    const required = this.order.filter(node => !node.optional);
+    if (required.length === 0) return 0;
+
+    const complete = required.filter(node => this.isNodeComplete(node, assets)).length;
+    return Math.round((complete / required.length) * 100);
+  }
+
+  /**
+   * Kahn's algorithm - also rejects cyclic graphs
+   */
+  private topologicalSort(): PipelineNode[] {
+    const inDegree = new Map<string, number>();
+    for (const id of this.nodes.keys()) {
+      inDegree.set(id, 0);
+    }
+    for (const edge of this.edges) {
+      inDegree.set(edge.to, (inDegree.get(edge.to) || 0) + 1);
+    }
+
+    // Seed in declaration order so ties keep the config's ordering
+    const queue = Array.from(this.nodes.keys()).filter(id => inDegree.get(id) === 0);
+    const sorted: PipelineNode[] = [];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      sorted.push(this.nodes.get(id)!);
+
+      for (const edge of this.edges) {
+        if (edge.from !== id) continue;
+        const remaining = inDegree.get(edge.to)! - 1;
+        inDegree.set(edge.to, remaining);
+        if (remaining === 0) {
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    if (sorted.length !== this.nodes.size) {
+      throw new Error('Pipeline graph contains a cycle');
+    }
+
+    return sorted;
+  }
+}
+
+/**
+ * Check whether an asset slot is populated
+ */
+function hasAsset(assets: PipelineAssets | null, key: PipelineAssetKey): boolean {
+  if (!assets) return false;
+  const value = assets[key];
+  if (Array.isArray(value)) {
+    return value.filter(Boolean).length > 0;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length > 0;
+  }
+  return !!value;
+}
+
@@ -0,0 +1,81 @@
+import { actionsManager } from '../actions/index.js';
+import { buildOrchestratorPrompt } from './orchestrator-prompt.js';
+import type { PipelineEngine } from './pipeline-engine.js';
+import type { WorkflowConfig } from './workflow-registry.js';
+
+/**
+ * Prompt Generator - Builds the orchestrator system prompt for a workflow
+ * The pipeline, action and preset tables come from the workflow config;
+ * the rest of the prompt is shared (see orchestrator-prompt.ts).
+ */
+
+/**
+ * Generate the system prompt for a workflow config
+ */
+export function generatePrompt(config: WorkflowConfig, engine: PipelineEngine): string {
+  return buildOrchestratorPrompt({
+    pipelineTable: buildPipelineTable(engine),
+    actionsTable: buildActionsTable(engine),
+    presetTable: config.presetMatching ? buildPresetTable(config.presetMatching) : undefined,
+    rules: config.rules,
+  });
+}
+
+/**
+ * Steps in graph order with the ActionCard fields each one exposes
+ */
+function buildPipelineTable(engine: PipelineEngine): string {
+  const rows = engine.getNodes().map((node, i) => {
+    const template = actionsManager.getTemplate(node.action);
+    const fields = template ? Object.keys(template.parameters).join(', ') : '';
+    const optional = node.optional ? '(Optional) ' : '';
+    return `| ${i + 1} | ${optional}Propose ${node.action} | ActionCard: ${fields} |`;
+  });
+
+  return [
+    '| Step | Action | What User Sees |',
+    '|------|--------|----------------|',
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * Allowed actions with their template descriptions
+ */
+function buildActionsTable(engine: PipelineEngine): string {
+  const rows = engine.getNodes().map(node => {
+    const template = actionsManager.getTemplate(node.action);
+    return `| \`${node.action}\` | ${template?.description || node.label || node.id} |`;
+  });
+
+  return [
+    '| Action | When to Use |',
+    '|--------|-------------|',
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * Keyword → preset table; the "default" entry becomes the fallback row
+ */
+function buildPresetTable(presetMatching: Record<string, Record<string, string>>): string {
+  const columns = Array.from(new Set(Object.values(presetMatching).flatMap(presets => Object.keys(presets))));
+  const header = columns.map(column => column.charAt(0).toUpperCase() + column.slice(1));
+
+  const entries = Object.entries(presetMatching);
+  const ordered = [
+    ...entries.filter(([keywords]) => keywords !== 'default'),
+    ...entries.filter(([keywords]) => keywords === 'default'),
+  ];
+
+  const rows = ordered.map(([keywords, presets]) => {
+    const vibe = keywords === 'default' ? '*(no clear preference)*' : keywords;
+    return `| ${vibe} | ${columns.map(column => presets[column] || '-').join(' | ')} |`;
+  });
+
+  return [
+    `| User Vibe | ${header.join(' | ')} |`,
+    `|-----------|${columns.map(() => '------').join('|')}|`,
+    ...rows,
+  ].join('\n');
+}
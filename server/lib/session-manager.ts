@@ -1,6 +1,10 @@
 import { randomUUID } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { PipelineAssetKey, PipelineNodeStatus } from './pipeline-engine.js';
+import { workflowRegistry } from './workflow-registry.js';
+import { getAssetSlot, getWorkingPath, parseAssetSlot, type AssetSlotType } from './asset-versions.js';
+import type { CostEstimate, CostLineItem } from '../actions/types.js';
 
 /**
  * SessionManager - Handles SDK session lifecycle and persistence
@@ -23,9 +27,40 @@ export type PipelineStage =
 export interface PipelineAssets {
   hero?: string;
   contactSheet?: string;
-  frames: string[];      // frame-1.png through frame-6.png
-  videos: string[];      // video-1.mp4 through video-5.mp4 (frame pairs)
+  frames: string[];      // frame-1.png through frame-N.png (grid order)
+  frameOrder?: number[]; // Frame sequence as indices into frames (unset = grid order)
+  originalFrames?: string[];  // Frames before upscale_frames, in grid order (frames holds the upscaled set)
+  videos: string[];      // video-1.mp4 through video-N.mp4 (pairs in the frame sequence)
   finalVideo?: string;
+  exports?: Record<string, string>;  // Export preset ('reels', 'gif', ...) → file, made from finalVideo
+  activeVersions?: Record<string, number>;  // Slot ('hero', 'frame-2', ...) → active version
+}
+
+// One generation of a pipeline slot (see asset-versions.ts)
+export interface AssetVersion {
+  version: number;       // 1-based, per slot
+  path: string;          // Versioned copy under outputs/<sessionId>/versions/
+  templateId: string;
+  instanceId: string;
+  params: Record<string, unknown>;
+  prompt?: string;
+  createdAt: string;
+}
+
+// Provider spend of one executed action (estimates from server/actions/pricing.ts)
+export interface CostLedgerEntry {
+  instanceId: string;
+  templateId: string;
+  usd: number;
+  items: CostLineItem[];
+  createdAt: string;
+}
+
+export interface SessionCostSummary {
+  spentUsd: number;
+  budgetUsd: number | null;     // null = no budget
+  remainingUsd: number | null;
+  ledger: CostLedgerEntry[];
 }
 
 export interface SessionInfo {
@@ -39,10 +74,13 @@ export interface SessionInfo {
     status: 'active' | 'completed' | 'error';
     messageCount: number;
     context?: any;
+    workflowId?: string;  // Workflow config chosen at creation (workflows/*.json)
+    budgetUsd?: number | null;  // Provider spend cap; unset = SESSION_BUDGET_USD, null = no cap
     // Fork-related metadata
     forkedFrom?: string;  // Base session ID if this is a fork
     forkTimestamp?: string;  // When this fork was created
     forkPurpose?: string;  // Why this fork was created (e.g., "emotional-angle-variant")
+    forkStage?: string;  // Workflow stage the fork was taken at (assets up to it were copied)
   };
   messages: any[];  // Store message history
   turnCount: number;
@@ -53,23 +91,36 @@ export interface SessionInfo {
     assets: PipelineAssets;
     inputImages: string[];  // Reference images provided by user
     error?: string;
+    versions?: Record<string, AssetVersion[]>;  // Slot → every generation, oldest first
   };
+  costLedger?: CostLedgerEntry[];  // Provider spend per executed action, oldest first
+  pendingFork?: boolean;  // Next SDK query branches the inherited sdkSessionId (forkSession)
 }
 
 export class SessionManager {
   private sessions = new Map<string, SessionInfo>();
   private sessionDirectory: string;
+  private outputsDirectory: string;
   private maxSessionAge = 24 * 60 * 60 * 1000; // 24 hours
   private maxInactiveTime = 60 * 60 * 1000; // 1 hour
   private autoSave: boolean;
+  private defaultBudgetUsd: number | null;
+  private removalListeners: Array<(sessionId: string) => void | Promise<void>> = [];
 
   constructor(options: {
     sessionDirectory?: string;
+    outputsDirectory?: string;
     autoSave?: boolean;
     maxSessionAge?: number;
+    defaultBudgetUsd?: number | null;
   } = {}) {
     this.sessionDirectory = options.sessionDirectory || path.join(process.cwd(), 'sessions');
+    // Generated assets live under agent/outputs/<sessionId>/ so /outputs serves them
+    this.outputsDirectory = options.outputsDirectory || path.join(process.cwd(), 'agent', 'outputs');
     this.autoSave = options.autoSave ?? true;
+    this.defaultBudgetUsd = options.defaultBudgetUsd !== undefined
+      ? options.defaultBudgetUsd
+      : parseBudget(process.env.SESSION_BUDGET_USD);
     this.maxSessionAge = options.maxSessionAge || this.maxSessionAge;
 
     // Initialize session directory
@@ -130,6 +181,17 @@ export class SessionManager {
     return this.createSessionWithId(sessionId, metadata);
   }
 
+  /**
+   * Get an existing session from memory or disk (null if it doesn't exist; never creates one)
+   */
+  async findSession(sessionId: string): Promise<SessionInfo | null> {
+    const session = this.sessions.get(sessionId) || await this.loadSession(sessionId);
+    if (session) {
+      session.lastAccessedAt = new Date();
+    }
+    return session;
+  }
+
   /**
    * Create a session with a specific ID (or generate one if not provided)
    */
@@ -170,6 +232,7 @@ export class SessionManager {
     }
 
     session.sdkSessionId = sdkSessionId;
+    session.pendingFork = false;  // The fork now has its own SDK session
     session.lastAccessedAt = new Date();
 
     console.log(`🔗 Linked SDK session: ${sessionId} -> ${sdkSessionId}`);
@@ -210,15 +273,47 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Clear the frame or video list before a full set is stored
+   * The frame count follows the extracted grid, so a smaller grid must not
+   * leave frames (or clips) from a previous, larger one behind.
+   */
+  async clearAssetList(sessionId: string, listType: 'frames' | 'videos'): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.pipeline) return;
+
+    session.pipeline.assets[listType] = [];
+    if (listType === 'frames') {
+      delete session.pipeline.assets.frameOrder;
+      delete session.pipeline.assets.originalFrames;
+    }
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  /**
+   * Get the workflow ID a session was created with
+   */
+  getWorkflowId(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.metadata.workflowId;
+  }
+
   /**
    * Get resume options for SDK query
    */
-  getResumeOptions(sessionId: string): { resume?: string } {
+  getResumeOptions(sessionId: string): { resume?: string; forkSession?: boolean } {
     const session = this.sessions.get(sessionId);
     if (!session || !session.sdkSessionId) {
       return {};
     }
 
+    // A new fork resumes its base session's conversation into a new SDK session
+    if (session.pendingFork) {
+      return { resume: session.sdkSessionId, forkSession: true };
+    }
+
     return { resume: session.sdkSessionId };
   }
 
@@ -260,6 +355,31 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Load saved forks of a session that aren't in memory
+   */
+  private async loadForks(baseSessionId: string): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionDirectory);
+    } catch {
+      return;
+    }
+
+    for (const file of files) {
+      const sessionId = file.replace(/\.json$/, '');
+      if (sessionId === file || this.sessions.has(sessionId)) continue;
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(this.sessionDirectory, file), 'utf-8')) as SessionInfo;
+        if (data.metadata?.forkedFrom === baseSessionId) {
+          await this.loadSession(sessionId);
+        }
+      } catch {
+        // Unreadable session files aren't part of any family
+      }
+    }
+  }
+
   /**
    * Initialize storage directory
    */
@@ -298,9 +418,25 @@ export class SessionManager {
       } catch (error) {
         // File might not exist, ignore
       }
+
+      for (const listener of this.removalListeners) {
+        try {
+          await listener(id);
+        } catch (error) {
+          console.error(`Session removal listener failed for ${id}:`, error);
+        }
+      }
     }
   }
 
+  /**
+   * Register a callback for when a session is cleaned up
+   * Used to drop state stored alongside the session (e.g. action instances)
+   */
+  onSessionRemoved(listener: (sessionId: string) => void | Promise<void>): void {
+    this.removalListeners.push(listener);
+  }
+
   /**
    * Start cleanup interval
    */
@@ -351,12 +487,14 @@ export class SessionManager {
       messageCount: session.messages.length,
       turnCount: session.turnCount,
       status: session.metadata.status,
+      workflowId: workflowRegistry.resolve(session.metadata.workflowId).config.id,
       lastActive: session.lastAccessedAt,
       // Fork information
       isFork: !!session.metadata.forkedFrom,
       forkedFrom: session.metadata.forkedFrom,
       forkTimestamp: session.metadata.forkTimestamp,
-      forkPurpose: session.metadata.forkPurpose
+      forkPurpose: session.metadata.forkPurpose,
+      forkStage: session.metadata.forkStage
     };
   }
 
@@ -374,20 +512,21 @@ export class SessionManager {
    * Get session family tree
    * Returns base session + all forks for comparison
    */
-  getSessionFamily(sessionId: string): {
+  async getSessionFamily(sessionId: string): Promise<{
     baseSession: SessionInfo | null;
     forks: SessionInfo[];
-  } {
-    const session = this.sessions.get(sessionId);
+  }> {
+    const session = this.sessions.get(sessionId) || await this.loadSession(sessionId);
     if (!session) {
       return { baseSession: null, forks: [] };
     }
 
     // If this is a fork, get the base session
     const baseSessionId = session.metadata.forkedFrom || sessionId;
-    const baseSession = this.sessions.get(baseSessionId);
+    const baseSession = this.sessions.get(baseSessionId) || await this.loadSession(baseSessionId);
 
-    // Get all forks of the base session
+    // Get all forks of the base session, including ones not loaded since a restart
+    await this.loadForks(baseSessionId);
     const forks = this.getSessionForks(baseSessionId);
 
     return {
@@ -395,6 +534,141 @@ export class SessionManager {
       forks
     };
   }
+  /**
+   * Fork a session at a workflow stage
+   * The fork gets copies of the assets produced up to that stage (with their
+   * version history) and branches the SDK conversation on its first query,
+   * so base and fork continue independently.
+   */
+  async forkSession(baseSessionId: string, options: { stage: string; purpose?: string }): Promise<SessionInfo> {
+    const base = this.sessions.get(baseSessionId) || await this.loadSession(baseSessionId);
+    if (!base) {
+      throw new Error(`Session ${baseSessionId} not found`);
+    }
+
+    const engine = workflowRegistry.resolve(base.metadata.workflowId).engine;
+    const keep = engine.getAssetsUpTo(options.stage);
+    if (!keep) {
+      throw new Error(`Unknown stage: ${options.stage}`);
+    }
+
+    const fork = await this.createSession({
+      workflowId: base.metadata.workflowId,
+      campaignName: base.metadata.campaignName,
+      budgetUsd: base.metadata.budgetUsd,
+      // Forks of a fork join the root session's family
+      forkedFrom: base.metadata.forkedFrom || baseSessionId,
+      forkTimestamp: new Date().toISOString(),
+      forkPurpose: options.purpose,
+      forkStage: options.stage,
+    });
+    fork.sdkSessionId = base.sdkSessionId;
+    fork.pendingFork = !!base.sdkSessionId;
+
+    await this.ensureSessionOutputDir(fork.id);
+    const copy = (assetPath: string) => this.copyForkAsset(baseSessionId, fork.id, assetPath);
+
+    // Assets and versions of the kept stages, with paths moved to the fork's output dir
+    const baseAssets = base.pipeline?.assets;
+    const assets: PipelineAssets = { frames: [], videos: [] };
+    if (baseAssets) {
+      for (const key of keep) {
+        const value = baseAssets[key];
+        if (Array.isArray(value)) {
+          assets[key as 'frames' | 'videos'] = await Promise.all(value.map(item => item ? copy(item) : item));
+        } else if (key === 'exports' && baseAssets.exports) {
+          const entries = Object.entries(baseAssets.exports);
+          assets.exports = Object.fromEntries(await Promise.all(entries.map(async ([id, file]) => [id, await copy(file)])));
+        } else if (typeof value === 'string') {
+          assets[key as 'hero' | 'contactSheet' | 'finalVideo'] = await copy(value);
+        }
+      }
+      if (keep.includes('frames') && baseAssets.frameOrder) {
+        assets.frameOrder = [...baseAssets.frameOrder];
+      }
+      if (keep.includes('frames') && baseAssets.originalFrames) {
+        assets.originalFrames = await Promise.all(baseAssets.originalFrames.map(item => copy(item)));
+      }
+    }
+
+    const versions: Record<string, AssetVersion[]> = {};
+    const activeVersions: Record<string, number> = {};
+    for (const [slot, slotVersions] of Object.entries(base.pipeline?.versions || {})) {
+      const assetKey = getSlotAssetKey(slot);
+      if (!assetKey || !keep.includes(assetKey)) continue;
+      versions[slot] = await Promise.all(slotVersions.map(async v => ({ ...v, path: await copy(v.path) })));
+      const active = baseAssets?.activeVersions?.[slot];
+      if (active !== undefined) {
+        activeVersions[slot] = active;
+      }
+    }
+    assets.activeVersions = activeVersions;
+
+    fork.pipeline = {
+      stage: 'initialized',
+      stageStartedAt: new Date(),
+      assets,
+      inputImages: [...(base.pipeline?.inputImages || [])],
+      versions,
+    };
+
+    console.log(`🌿 Forked ${baseSessionId} at "${options.stage}" → ${fork.id} (${keep.join(', ') || 'no assets'})`);
+
+    if (this.autoSave) {
+      await this.saveSession(fork.id);
+    }
+
+    return fork;
+  }
+
+  /**
+   * Copy one asset of a base session into a fork's output dir
+   * Paths outside the base session's dir (e.g. legacy outputs/) are shared as-is.
+   */
+  private async copyForkAsset(baseSessionId: string, forkSessionId: string, assetPath: string): Promise<string> {
+    const match = new RegExp(`(^|/)${baseSessionId}/(.+)$`).exec(assetPath);
+    if (!match) {
+      return assetPath;
+    }
+
+    const relative = match[2];
+    const destination = path.join(this.getSessionOutputDir(forkSessionId), relative);
+    try {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.copyFile(path.join(this.getSessionOutputDir(baseSessionId), relative), destination);
+    } catch (error) {
+      console.error(`⚠️ Failed to copy ${assetPath} into fork:`, error instanceof Error ? error.message : error);
+      return assetPath;
+    }
+    return assetPath.slice(0, match.index + match[1].length) + `${forkSessionId}/${relative}`;
+  }
+
+  /**
+   * Context for the first message of a fork: which stage it branched at
+   * and which assets it kept. Null for other sessions and later turns.
+   */
+  getForkBriefing(sessionId: string): string | null {
+    const session = this.sessions.get(sessionId);
+    if (!session?.metadata.forkedFrom || !session.metadata.forkStage || session.turnCount > 0) {
+      return null;
+    }
+
+    const assets = session.pipeline?.assets;
+    const kept = [
+      assets?.hero && `hero: ${assets.hero}`,
+      assets?.contactSheet && `contact sheet: ${assets.contactSheet}`,
+      assets?.frames.length && `${assets.frames.length} frames`,
+      assets?.videos.filter(Boolean).length && `${assets.videos.filter(Boolean).length} clips`,
+      assets?.finalVideo && `final video: ${assets.finalVideo}`,
+    ].filter(Boolean);
+
+    return [
+      `[Forked session: branched from ${session.metadata.forkedFrom} at stage "${session.metadata.forkStage}"${session.metadata.forkPurpose ? ` to explore "${session.metadata.forkPurpose}"` : ''}]`,
+      `Assets kept: ${kept.length > 0 ? kept.join(', ') : 'none'}.`,
+      'Assets from later stages of the original session are not part of this fork - continue from the kept assets.',
+    ].join('\n');
+  }
+
 
   // ============================================
   // Pipeline Management Methods
@@ -402,7 +676,7 @@ export class SessionManager {
 
   /**
    * Create output directories for a session
-   * Creates: outputs/, outputs/frames/, outputs/videos/, outputs/final/
+   * Creates: outputs/<sessionId>/, frames/, videos/, final/
    */
   async createSessionDirectories(sessionId: string): Promise<string> {
     const session = this.sessions.get(sessionId);
@@ -410,30 +684,21 @@ export class SessionManager {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Create session-specific output directory
-    const sessionOutputDir = path.join(this.sessionDirectory, sessionId, 'outputs');
-    const directories = [
-      sessionOutputDir,
-      path.join(sessionOutputDir, 'frames'),
-      path.join(sessionOutputDir, 'videos'),
-      path.join(sessionOutputDir, 'final')
-    ];
+    const sessionOutputDir = await this.ensureSessionOutputDir(sessionId);
 
-    for (const dir of directories) {
-      await fs.mkdir(dir, { recursive: true });
+    // Initialize pipeline state once; later chat turns (and forks) keep their assets
+    if (!session.pipeline) {
+      session.pipeline = {
+        stage: 'initialized',
+        stageStartedAt: new Date(),
+        assets: {
+          frames: [],
+          videos: []
+        },
+        inputImages: []
+      };
     }
 
-    // Initialize pipeline state
-    session.pipeline = {
-      stage: 'initialized',
-      stageStartedAt: new Date(),
-      assets: {
-        frames: [],
-        videos: []
-      },
-      inputImages: []
-    };
-
     console.log(`📁 Created output directories for session: ${sessionId}`);
     console.log(`   ${sessionOutputDir}`);
 
@@ -445,10 +710,29 @@ export class SessionManager {
   }
 
   /**
-   * Get the output directory path for a session
+   * Get the output directory path for a session (absolute)
    */
   getSessionOutputDir(sessionId: string): string {
-    return path.join(this.sessionDirectory, sessionId, 'outputs');
+    return path.join(this.outputsDirectory, sessionId);
+  }
+
+  /**
+   * Make sure a session's output directories exist (without resetting its pipeline)
+   */
+  async ensureSessionOutputDir(sessionId: string): Promise<string> {
+    const sessionOutputDir = this.getSessionOutputDir(sessionId);
+    const directories = [
+      sessionOutputDir,
+      path.join(sessionOutputDir, 'frames'),
+      path.join(sessionOutputDir, 'videos'),
+      path.join(sessionOutputDir, 'final')
+    ];
+
+    for (const dir of directories) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+
+    return sessionOutputDir;
   }
 
   /**
@@ -553,17 +837,19 @@ export class SessionManager {
         session.pipeline.assets.contactSheet = assetPath;
         break;
       case 'frame':
-        if (index !== undefined && index >= 0 && index < 6) {
+        if (index !== undefined && index >= 0) {
           session.pipeline.assets.frames[index] = assetPath;
         }
         break;
       case 'video':
-        if (index !== undefined && index >= 0 && index < 6) {
+        if (index !== undefined && index >= 0) {
           session.pipeline.assets.videos[index] = assetPath;
         }
         break;
       case 'finalVideo':
         session.pipeline.assets.finalVideo = assetPath;
+        // Exports were made from the previous master
+        delete session.pipeline.assets.exports;
         break;
     }
 
@@ -584,6 +870,8 @@ export class SessionManager {
     assets: PipelineAssets;
     inputImages: string[];
     progress: number;
+    currentStage: string;
+    nodes: PipelineNodeStatus[];
     error?: string;
   } | null {
     const session = this.sessions.get(sessionId);
@@ -591,24 +879,18 @@ export class SessionManager {
       return null;
     }
 
-    // Calculate progress percentage
-    const stageProgress: Record<PipelineStage, number> = {
-      'initialized': 0,
-      'analyzing': 10,
-      'generating-hero': 20,
-      'generating-contact-sheet': 35,
-      'isolating-frames': 50,
-      'generating-videos': 75,
-      'stitching': 90,
-      'completed': 100,
-      'error': -1
-    };
+    // Progress comes from the workflow graph: share of required stages with assets
+    const engine = workflowRegistry.resolve(session.metadata.workflowId).engine;
+    const assets = session.pipeline.assets;
+    const progress = session.pipeline.stage === 'error' ? -1 : engine.getProgress(assets);
 
     return {
       stage: session.pipeline.stage,
-      assets: session.pipeline.assets,
+      assets,
       inputImages: session.pipeline.inputImages,
-      progress: stageProgress[session.pipeline.stage],
+      progress,
+      currentStage: engine.getCurrentStage(assets),
+      nodes: engine.getNodeStatuses(assets),
       error: session.pipeline.error
     };
   }
@@ -623,6 +905,275 @@ export class SessionManager {
     }
     return session.pipeline.assets;
   }
+
+  /**
+   * Next version number for a slot
+   */
+  getNextAssetVersion(sessionId: string, slot: string): number {
+    const versions = this.sessions.get(sessionId)?.pipeline?.versions?.[slot] || [];
+    return versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+  }
+
+  /**
+   * Store a new generation as the active version of its slot
+   */
+  async addAssetVersion(
+    sessionId: string,
+    assetType: AssetSlotType,
+    index: number | undefined,
+    entry: Omit<AssetVersion, 'version' | 'createdAt'>
+  ): Promise<AssetVersion> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const slot = getAssetSlot(assetType, index);
+    const version: AssetVersion = {
+      ...entry,
+      version: this.getNextAssetVersion(sessionId, slot),
+      createdAt: new Date().toISOString(),
+    };
+
+    // addAsset creates the pipeline if needed and saves the session
+    const pipeline = session.pipeline || (session.pipeline = {
+      stage: 'initialized',
+      assets: { frames: [], videos: [] },
+      inputImages: []
+    });
+    pipeline.versions = pipeline.versions || {};
+    pipeline.versions[slot] = [...(pipeline.versions[slot] || []), version];
+    pipeline.assets.activeVersions = { ...pipeline.assets.activeVersions, [slot]: version.version };
+
+    await this.addAsset(sessionId, assetType, version.path, index);
+    return version;
+  }
+
+  /**
+   * Versions per slot (all slots, or just one)
+   */
+  getAssetVersions(sessionId: string, slot?: string): Record<string, AssetVersion[]> | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    const versions = session.pipeline?.versions || {};
+    return slot ? { [slot]: versions[slot] || [] } : versions;
+  }
+
+  /**
+   * Make an older version the active asset of its slot again (and restore its working file)
+   */
+  async promoteAssetVersion(sessionId: string, slot: string, versionNumber: number): Promise<AssetVersion> {
+    const session = this.sessions.get(sessionId);
+    const parsed = parseAssetSlot(slot);
+    if (!session?.pipeline || !parsed) {
+      throw new Error(`Unknown asset slot: ${slot}`);
+    }
+
+    const version = session.pipeline.versions?.[slot]?.find(v => v.version === versionNumber);
+    if (!version) {
+      throw new Error(`Version ${versionNumber} not found for ${slot}`);
+    }
+
+    // Executors read and rewrite the slot's working file (e.g. resize_frames), so it must hold the promoted content
+    const workingPath = getWorkingPath(slot);
+    const match = new RegExp(`(^|/)${sessionId}/(.+)$`).exec(version.path);
+    if (workingPath && match && match[2] !== workingPath) {
+      const sessionOutputDir = this.getSessionOutputDir(sessionId);
+      await fs.mkdir(path.dirname(path.join(sessionOutputDir, workingPath)), { recursive: true });
+      await fs.copyFile(path.join(sessionOutputDir, match[2]), path.join(sessionOutputDir, workingPath));
+    }
+
+    session.pipeline.assets.activeVersions = { ...session.pipeline.assets.activeVersions, [slot]: versionNumber };
+    await this.addAsset(sessionId, parsed.assetType, version.path, parsed.index);
+
+    console.log(`⏪ Promoted ${slot} v${versionNumber} to active`);
+    return version;
+  }
+
+  /**
+   * Get frames in playback order (explicit sequence, or grid order)
+   */
+  getFrameSequence(sessionId: string): string[] | null {
+    const assets = this.getSessionAssets(sessionId);
+    if (!assets) {
+      return null;
+    }
+    if (!assets.frameOrder) {
+      return assets.frames;
+    }
+    return assets.frameOrder.map(index => assets.frames[index]).filter(Boolean);
+  }
+
+  /**
+   * Set the frame sequence from an ordered list of frame paths
+   * Existing clips were generated for the old sequence, so they are cleared.
+   */
+  async setFrameSequence(sessionId: string, framePaths: string[]): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.pipeline) {
+      throw new Error(`Session ${sessionId} has no frames`);
+    }
+
+    const { assets } = session.pipeline;
+    const frameOrder = framePaths.map(framePath => {
+      const index = assets.frames.indexOf(framePath);
+      if (index === -1) {
+        throw new Error(`Unknown frame: ${framePath}`);
+      }
+      return index;
+    });
+
+    assets.frameOrder = frameOrder;
+    assets.videos = [];
+    session.lastAccessedAt = new Date();
+
+    console.log(`🔀 Frame sequence set: ${frameOrder.map(index => index + 1).join(' → ')}`);
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  /**
+   * Record the pre-upscale frames (null drops them, e.g. after the frames are resized)
+   */
+  async setOriginalFrames(sessionId: string, framePaths: string[] | null): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.pipeline) {
+      throw new Error(`Session ${sessionId} has no frames`);
+    }
+
+    if (framePaths) {
+      session.pipeline.assets.originalFrames = framePaths;
+    } else {
+      delete session.pipeline.assets.originalFrames;
+    }
+    session.lastAccessedAt = new Date();
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  /**
+   * Record export files by preset (merged, so re-exporting one preset keeps the others)
+   */
+  async setExports(sessionId: string, exports: Record<string, string>): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.pipeline) {
+      throw new Error(`Session ${sessionId} has no final video`);
+    }
+
+    session.pipeline.assets.exports = { ...session.pipeline.assets.exports, ...exports };
+    session.lastAccessedAt = new Date();
+
+    console.log(`📤 Exports stored: ${Object.keys(exports).join(', ')}`);
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  // ============================================
+  // Cost Accounting Methods
+  // ============================================
+
+  /**
+   * Spend cap for a session (per-session override, else the server default)
+   */
+  getBudget(sessionId: string): number | null {
+    const budget = this.sessions.get(sessionId)?.metadata.budgetUsd;
+    return budget !== undefined ? budget : this.defaultBudgetUsd;
+  }
+
+  /**
+   * Set a session's spend cap (null removes the cap)
+   */
+  async setBudget(sessionId: string, budgetUsd: number | null): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    session.metadata.budgetUsd = budgetUsd;
+    console.log(`💰 Budget for ${sessionId}: ${budgetUsd === null ? 'none' : `$${budgetUsd.toFixed(2)}`}`);
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  /**
+   * Total provider spend recorded for a session
+   */
+  getSpend(sessionId: string): number {
+    const ledger = this.sessions.get(sessionId)?.costLedger || [];
+    return Math.round(ledger.reduce((sum, entry) => sum + entry.usd, 0) * 100) / 100;
+  }
+
+  /**
+   * Add an executed action's cost to the session ledger
+   */
+  async recordActionCost(sessionId: string, instanceId: string, templateId: string, cost: CostEstimate): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || cost.totalUsd <= 0) {
+      return;
+    }
+
+    session.costLedger = [...(session.costLedger || []), {
+      instanceId,
+      templateId,
+      usd: cost.totalUsd,
+      items: cost.items,
+      createdAt: new Date().toISOString(),
+    }];
+
+    console.log(`💰 ${templateId}: $${cost.totalUsd.toFixed(2)} (session total $${this.getSpend(sessionId).toFixed(2)})`);
+
+    if (this.autoSave) {
+      await this.saveSession(sessionId);
+    }
+  }
+
+  /**
+   * Ledger, spend and remaining budget for a session
+   */
+  getCostSummary(sessionId: string): SessionCostSummary | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const spentUsd = this.getSpend(sessionId);
+    const budgetUsd = this.getBudget(sessionId);
+    return {
+      spentUsd,
+      budgetUsd,
+      remainingUsd: budgetUsd === null ? null : Math.max(0, Math.round((budgetUsd - spentUsd) * 100) / 100),
+      ledger: session.costLedger || [],
+    };
+  }
+}
+
+/**
+ * PipelineAssets key a version slot belongs to ('frame-2' → 'frames')
+ */
+function getSlotAssetKey(slot: string): PipelineAssetKey | null {
+  const parsed = parseAssetSlot(slot);
+  if (!parsed) return null;
+  if (parsed.assetType === 'frame') return 'frames';
+  if (parsed.assetType === 'video') return 'videos';
+  return parsed.assetType;
+}
+
+/**
+ * Parse a USD budget from config; empty or invalid means no budget
+ */
+function parseBudget(value: string | undefined): number | null {
+  const budget = Number(value);
+  return value && Number.isFinite(budget) && budget >= 0 ? budget : null;
 }
 
 // Export singleton instance for convenience
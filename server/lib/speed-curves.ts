@@ -0,0 +1,290 @@
+/**
+ * Speed Curves - Parse, sample and plot the time remaps used by stitch_final
+ *
+ * A curve maps output time (0-1 across the clip) to source progress (0-1 through the clip).
+ * Specs are strings so they fit in a form field or a query param:
+ *   - named easing:   "easeInOutExpo", "dramaticSwoop"
+ *   - cubic-bezier:   "0.85,0,0.15,1"
+ *   - speed keyframes "0:0.3, 0.5:3, 1:0.3" (time:relative speed, linear in between)
+ */
+
+export type BezierPoints = [number, number, number, number];
+
+export interface SpeedKeyframe {
+  time: number;
+  speed: number;
+}
+
+export type SpeedCurve =
+  | { type: 'easing'; name: string }
+  | { type: 'bezier'; points: BezierPoints }
+  | { type: 'keyframes'; keyframes: SpeedKeyframe[] };
+
+export interface SpeedCurveSample {
+  time: number;      // Output time, 0-1
+  progress: number;  // Source progress, 0-1
+  speed: number;     // Playback speed relative to the clip average (1 = average)
+}
+
+// Named beziers (docs/SPEED-CURVES-REFERENCE.md, docs/EASING_CURVES.md)
+export const BEZIER_PRESETS: Record<string, BezierPoints> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+  dramaticSwoop: [0.85, 0, 0.15, 1],
+  cinematic: [0.16, 1, 0.3, 1],
+  dramatic: [0.77, 0, 0.175, 1],
+  luxurious: [0.19, 1, 0.22, 1],
+  smoothInOut: [0.4, 0, 0.2, 1],
+};
+
+const bounceOut = (t: number): number => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+const BACK = 1.70158;
+const ELASTIC = (2 * Math.PI) / 3;
+
+// "in" variants; "out" and "inOut" are derived from them
+const EASE_IN: Record<string, (t: number) => number> = {
+  Quad: (t) => t ** 2,
+  Cubic: (t) => t ** 3,
+  Quart: (t) => t ** 4,
+  Quint: (t) => t ** 5,
+  Sine: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  Expo: (t) => (t === 0 ? 0 : 2 ** (10 * t - 10)),
+  Circ: (t) => 1 - Math.sqrt(1 - t ** 2),
+  Back: (t) => (BACK + 1) * t ** 3 - BACK * t ** 2,
+  Elastic: (t) => (t === 0 || t === 1 ? t : -(2 ** (10 * t - 10)) * Math.sin((t * 10 - 10.75) * ELASTIC)),
+  Bounce: (t) => 1 - bounceOut(1 - t),
+};
+
+const EASINGS: Record<string, (t: number) => number> = { linear: (t) => t };
+for (const [family, easeIn] of Object.entries(EASE_IN)) {
+  const easeOut = (t: number) => 1 - easeIn(1 - t);
+  EASINGS[`easeIn${family}`] = easeIn;
+  EASINGS[`easeOut${family}`] = easeOut;
+  EASINGS[`easeInOut${family}`] = (t) => (t < 0.5 ? easeIn(t * 2) / 2 : 0.5 + easeOut(t * 2 - 1) / 2);
+}
+
+// Asymmetric combos from the reference: one family in, another out
+const ASYMMETRIC: Array<[string, string]> = [['Expo', 'Cubic'], ['Quart', 'Quad'], ['Circ', 'Quad']];
+for (const [inFamily, outFamily] of ASYMMETRIC) {
+  const easeIn = EASE_IN[inFamily];
+  const easeOut = (t: number) => 1 - EASE_IN[outFamily](1 - t);
+  EASINGS[`easeIn${inFamily}Out${outFamily}`] = (t) => (t < 0.5 ? easeIn(t * 2) / 2 : 0.5 + easeOut(t * 2 - 1) / 2);
+}
+
+export const EASING_NAMES = Object.keys(EASINGS);
+
+/**
+ * Parse a curve spec; returns a message suitable for a form field on failure
+ */
+export function parseSpeedCurve(spec: unknown): { curve: SpeedCurve } | { error: string } {
+  if (Array.isArray(spec)) {
+    return parseSpeedCurve(spec.join(','));
+  }
+  const text = String(spec ?? '').trim();
+  if (!text) {
+    return { error: 'Curve is empty' };
+  }
+
+  if (EASINGS[text]) {
+    return { curve: { type: 'easing', name: text } };
+  }
+  if (BEZIER_PRESETS[text]) {
+    return { curve: { type: 'bezier', points: BEZIER_PRESETS[text] } };
+  }
+
+  // Keyframes use time:speed pairs
+  if (text.includes(':')) {
+    const keyframes: SpeedKeyframe[] = [];
+    for (const pair of text.split(',')) {
+      const [time, speed] = pair.split(':').map((part) => Number(part.trim()));
+      if (!Number.isFinite(time) || !Number.isFinite(speed)) {
+        return { error: `Invalid keyframe "${pair.trim()}" (use time:speed, e.g. 0.5:3)` };
+      }
+      if (time < 0 || time > 1) {
+        return { error: 'Keyframe times must be between 0 and 1' };
+      }
+      if (speed <= 0) {
+        return { error: 'Keyframe speeds must be greater than 0' };
+      }
+      keyframes.push({ time, speed });
+    }
+    if (keyframes.length < 2) {
+      return { error: 'Need at least 2 keyframes' };
+    }
+    keyframes.sort((a, b) => a.time - b.time);
+    return { curve: { type: 'keyframes', keyframes } };
+  }
+
+  const points = text.split(',').map((part) => Number(part.trim()));
+  if (points.length === 4 && points.every(Number.isFinite)) {
+    if (points[0] < 0 || points[0] > 1 || points[2] < 0 || points[2] > 1) {
+      return { error: 'Bezier x values must be between 0 and 1' };
+    }
+    return { curve: { type: 'bezier', points: points as BezierPoints } };
+  }
+
+  return { error: `Unknown curve "${text}" (use an easing name, x1,y1,x2,y2 or time:speed keyframes)` };
+}
+
+/**
+ * Canonical spec string for a curve (round-trips through parseSpeedCurve)
+ */
+export function formatSpeedCurve(curve: SpeedCurve): string {
+  switch (curve.type) {
+    case 'easing':
+      return curve.name;
+    case 'bezier':
+      return curve.points.join(',');
+    case 'keyframes':
+      return curve.keyframes.map((k) => `${k.time}:${k.speed}`).join(',');
+  }
+}
+
+/**
+ * CSS-style cubic-bezier: solve x(t) = time for t, then return y(t)
+ */
+function bezierProgress([x1, y1, x2, y2]: BezierPoints, time: number): number {
+  const axis = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t ** 2 + t ** 3;
+  const slope = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t ** 2;
+
+  // Newton first, bisection if the slope flattens out
+  let t = time;
+  for (let i = 0; i < 8; i++) {
+    const error = axis(x1, x2, t) - time;
+    const d = slope(x1, x2, t);
+    if (Math.abs(error) < 1e-6) return axis(y1, y2, t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= error / d;
+  }
+
+  let lo = 0;
+  let hi = 1;
+  t = time;
+  for (let i = 0; i < 40; i++) {
+    const x = axis(x1, x2, t);
+    if (Math.abs(x - time) < 1e-6) break;
+    if (x < time) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return axis(y1, y2, t);
+}
+
+/**
+ * Source progress at an output time: the area under the speed map, normalized to 1
+ */
+function keyframeProgress(keyframes: SpeedKeyframe[], time: number): number {
+  // Hold the first/last speed out to the clip edges
+  const points = [
+    { time: 0, speed: keyframes[0].speed },
+    ...keyframes,
+    { time: 1, speed: keyframes[keyframes.length - 1].speed },
+  ];
+
+  let total = 0;
+  let reached = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const span = b.time - a.time;
+    if (span <= 0) continue;
+    total += ((a.speed + b.speed) / 2) * span;
+
+    if (time >= b.time) {
+      reached += ((a.speed + b.speed) / 2) * span;
+    } else if (time > a.time) {
+      const speedAt = a.speed + ((b.speed - a.speed) * (time - a.time)) / span;
+      reached += ((a.speed + speedAt) / 2) * (time - a.time);
+    }
+  }
+  return total > 0 ? reached / total : time;
+}
+
+/**
+ * Source progress (0-1) at an output time (0-1)
+ */
+export function getCurveProgress(curve: SpeedCurve, time: number): number {
+  const t = Math.min(1, Math.max(0, time));
+  switch (curve.type) {
+    case 'easing':
+      return EASINGS[curve.name](t);
+    case 'bezier':
+      return bezierProgress(curve.points, t);
+    case 'keyframes':
+      return keyframeProgress(curve.keyframes, t);
+  }
+}
+
+/**
+ * Evenly spaced samples of progress and relative speed across the clip
+ */
+export function sampleSpeedCurve(curve: SpeedCurve, samples = 120): SpeedCurveSample[] {
+  const step = 1 / samples;
+  const result: SpeedCurveSample[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const time = i * step;
+    // Central difference, one-sided at the edges
+    const before = Math.max(0, time - step / 2);
+    const after = Math.min(1, time + step / 2);
+    const speed = (getCurveProgress(curve, after) - getCurveProgress(curve, before)) / (after - before);
+    result.push({ time, progress: getCurveProgress(curve, time), speed });
+  }
+  return result;
+}
+
+/**
+ * SVG graph of a curve: filled relative speed over time, progress as a dashed line.
+ * With a duration the time axis is labelled in seconds, for lining cuts up with music.
+ */
+export function renderSpeedCurveSvg(
+  curve: SpeedCurve,
+  options: { width?: number; height?: number; duration?: number } = {}
+): string {
+  const { width = 320, height = 160, duration } = options;
+  const pad = { top: 12, right: 12, bottom: 22, left: 30 };
+  const plotWidth = width - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+
+  const samples = sampleSpeedCurve(curve);
+  // Speed axis always shows 0 and the average (1); overshooting easings can dip below 0
+  const maxSpeed = Math.max(1.5, ...samples.map((s) => s.speed)) * 1.05;
+  const minSpeed = Math.min(0, ...samples.map((s) => s.speed));
+  const x = (time: number) => pad.left + time * plotWidth;
+  const ySpeed = (speed: number) => pad.top + (1 - (speed - minSpeed) / (maxSpeed - minSpeed)) * plotHeight;
+  const yProgress = (progress: number) => pad.top + (1 - progress) * plotHeight;
+  const fmt = (n: number) => n.toFixed(1);
+
+  const speedLine = samples.map((s) => `${fmt(x(s.time))},${fmt(ySpeed(s.speed))}`).join(' ');
+  const speedArea = `${fmt(x(0))},${fmt(ySpeed(0))} ${speedLine} ${fmt(x(1))},${fmt(ySpeed(0))}`;
+  const progressLine = samples.map((s) => `${fmt(x(s.time))},${fmt(yProgress(s.progress))}`).join(' ');
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  const tickLabel = (time: number) => (duration ? `${(time * duration).toFixed(2)}s` : `${Math.round(time * 100)}%`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#141414"/>`,
+    ...ticks.map((t) => `<line x1="${fmt(x(t))}" y1="${pad.top}" x2="${fmt(x(t))}" y2="${pad.top + plotHeight}" stroke="#2a2a2a"/>`),
+    `<line x1="${pad.left}" y1="${fmt(ySpeed(1))}" x2="${pad.left + plotWidth}" y2="${fmt(ySpeed(1))}" stroke="#5c5955" stroke-dasharray="3 3"/>`,
+    `<polygon points="${speedArea}" fill="#c9a66b" fill-opacity="0.25"/>`,
+    `<polyline points="${speedLine}" fill="none" stroke="#c9a66b" stroke-width="2"/>`,
+    `<polyline points="${progressLine}" fill="none" stroke="#8a8680" stroke-width="1" stroke-dasharray="4 3"/>`,
+    `<line x1="${pad.left}" y1="${fmt(ySpeed(0))}" x2="${pad.left + plotWidth}" y2="${fmt(ySpeed(0))}" stroke="#5c5955"/>`,
+    `<text x="${pad.left - 4}" y="${fmt(ySpeed(1) + 3)}" fill="#8a8680" font-family="sans-serif" font-size="9" text-anchor="end">1x</text>`,
+    `<text x="${pad.left - 4}" y="${fmt(ySpeed(0) + 3)}" fill="#8a8680" font-family="sans-serif" font-size="9" text-anchor="end">0</text>`,
+    ...ticks.map((t) =>
+      `<text x="${fmt(x(t))}" y="${height - 7}" fill="#8a8680" font-family="sans-serif" font-size="9" text-anchor="middle">${tickLabel(t)}</text>`
+    ),
+    '</svg>',
+  ].join('');
+}
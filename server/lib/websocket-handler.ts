@@ -16,6 +16,7 @@ export interface WSClientMessage {
   sessionId?: string;
   content?: string;
   images?: string[];
+  workflowId?: string;  // Workflow for a new session (chat only)
   // Action-related fields
   instanceId?: string;
   params?: Record<string, unknown>;
@@ -98,7 +99,7 @@ export interface WSServerMessage {
 
 // Events emitted by WebSocketHandler
 export interface WebSocketEvents {
-  chat: { clientId: string; sessionId?: string; content: string; images?: string[] };
+  chat: { clientId: string; sessionId?: string; content: string; images?: string[]; workflowId?: string };
   continue: { clientId: string; sessionId: string; content?: string };
   cancel: { clientId: string; sessionId: string };
   subscribe: { clientId: string; sessionId: string };
@@ -247,6 +248,7 @@ export class WebSocketHandler extends EventEmitter {
           sessionId: msg.sessionId,
           content: msg.content,
           images: msg.images,
+          workflowId: msg.workflowId,
         });
         break;
 
@@ -0,0 +1,136 @@
+import { readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { PipelineEngine, type PipelineGraph } from './pipeline-engine.js';
+import { generatePrompt } from './prompt-generator.js';
+
+/**
+ * WorkflowRegistry - Loads workflow configs from workflows/*.json at startup
+ *
+ * Each workflow supplies its own stage graph, preset matching table and rules.
+ * A session picks a workflow when it is created; everything downstream
+ * (system prompt, allowed actions, progress) is resolved from that choice.
+ */
+
+export interface WorkflowConfig {
+  id: string;
+  name: string;
+  description: string;
+  skills?: Record<string, string>;
+  setup?: {
+    directories?: string[];
+    workingDir?: string;
+  };
+  graph: PipelineGraph;
+  presetMatching?: Record<string, Record<string, string>>;
+  phases?: unknown[];
+  rules?: string[];
+}
+
+export interface LoadedWorkflow {
+  config: WorkflowConfig;
+  engine: PipelineEngine;
+  allowedActions: string[];
+  systemPrompt: string;
+}
+
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  description: string;
+  actions: string[];
+  stages: Array<{ id: string; action: string; label?: string; optional: boolean }>;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const WORKFLOWS_DIR = path.join(__dirname, '../../workflows');
+export const DEFAULT_WORKFLOW_ID = 'fashion-editorial';
+
+export class WorkflowRegistry {
+  private workflows = new Map<string, LoadedWorkflow>();
+  private directory: string;
+  private defaultId: string;
+
+  constructor(options: { directory?: string; defaultId?: string } = {}) {
+    this.directory = options.directory || WORKFLOWS_DIR;
+    this.defaultId = options.defaultId || DEFAULT_WORKFLOW_ID;
+  }
+
+  /**
+   * Read every workflow config in the directory
+   * Invalid configs are logged and skipped so one bad file doesn't stop the server.
+   */
+  load(): void {
+    this.workflows.clear();
+
+    const files = readdirSync(this.directory).filter(file => file.endsWith('.json'));
+    for (const file of files) {
+      try {
+        const config = JSON.parse(readFileSync(path.join(this.directory, file), 'utf-8')) as WorkflowConfig;
+        if (!config.id || !config.graph) {
+          throw new Error('workflow config needs "id" and "graph"');
+        }
+
+        const engine = new PipelineEngine(config.graph);
+        this.workflows.set(config.id, {
+          config,
+          engine,
+          allowedActions: engine.getNodes().map(node => node.action),
+          systemPrompt: generatePrompt(config, engine),
+        });
+      } catch (error) {
+        console.error(`⚠️ Failed to load workflow ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!this.workflows.has(this.defaultId)) {
+      throw new Error(`Default workflow "${this.defaultId}" not found in ${this.directory}`);
+    }
+
+    console.log(`📋 Loaded ${this.workflows.size} workflow(s): ${Array.from(this.workflows.keys()).join(', ')}`);
+  }
+
+  has(id: string): boolean {
+    return this.workflows.has(id);
+  }
+
+  get(id: string): LoadedWorkflow | undefined {
+    return this.workflows.get(id);
+  }
+
+  /**
+   * Get a workflow by ID, falling back to the default workflow
+   * Sessions created before workflow selection existed have no workflowId.
+   */
+  resolve(id?: string): LoadedWorkflow {
+    return (id && this.workflows.get(id)) || this.workflows.get(this.defaultId)!;
+  }
+
+  getDefaultId(): string {
+    return this.defaultId;
+  }
+
+  /**
+   * Summaries for GET /workflows
+   */
+  list(): WorkflowSummary[] {
+    return Array.from(this.workflows.values()).map(({ config, engine, allowedActions }) => ({
+      id: config.id,
+      name: config.name,
+      description: config.description,
+      actions: allowedActions,
+      stages: engine.getNodes().map(node => ({
+        id: node.id,
+        action: node.action,
+        label: node.label,
+        optional: !!node.optional,
+      })),
+    }));
+  }
+}
+
+// Export singleton, loaded at startup
+export const workflowRegistry = new WorkflowRegistry();
+workflowRegistry.load();
@@ -0,0 +1,140 @@
+// server/providers/fal-image.ts
+// fal.ai image provider (generate-image.ts script, edits via the nano-banana-pro/edit endpoint; needs FAL_KEY)
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { fal } from "@fal-ai/client";
+import { ImageProvider, ProviderError } from "./types.js";
+
+const SCRIPT_PATH = ".claude/skills/fashion-shoot-pipeline/scripts/generate-image.ts";
+const EDIT_ENDPOINT = "fal-ai/nano-banana-pro/edit";
+
+// Colour the edit area is marked with in the guide image
+const MASK_GUIDE_COLOR = { r: 255, g: 0, b: 255 };
+
+/**
+ * Map script output to a structured error (the script only reports failures as text)
+ */
+function classifyError(output: string): ProviderError {
+  if (output.includes("FAL_KEY")) {
+    return { code: "MISSING_API_KEY", message: "FAL_KEY environment variable is not set", retryable: false };
+  }
+  if (/exhausted balance|insufficient (balance|credits)|quota|rate limit|\b429\b/i.test(output)) {
+    return { code: "QUOTA_EXCEEDED", message: "fal.ai quota or rate limit reached", retryable: false };
+  }
+  if (/safety|nsfw|content polic|flagged/i.test(output)) {
+    return { code: "SAFETY_FILTER", message: "Image was blocked by the safety filter - adjust the prompt", retryable: false };
+  }
+  if (/timed? ?out|ETIMEDOUT|\b504\b/i.test(output)) {
+    return { code: "TIMEOUT", message: "fal.ai request timed out", retryable: true };
+  }
+  return { code: "GENERATION_FAILED", message: output || "Image generation failed", retryable: true };
+}
+
+/**
+ * The model has no mask input, so it gets a second image with the edit area tinted magenta
+ */
+async function buildMaskGuide(imagePath: string, maskPath: string): Promise<Buffer> {
+  const { width, height } = await sharp(imagePath).metadata();
+  if (!width || !height) {
+    throw new Error(`Unreadable image: ${imagePath}`);
+  }
+  const alpha = await sharp(maskPath)
+    .flatten({ background: "#000000" })
+    .resize(width, height, { fit: "fill" })
+    .greyscale()
+    .linear(0.6, 0)
+    .raw()
+    .toBuffer();
+  const tint = await sharp({ create: { width, height, channels: 3, background: MASK_GUIDE_COLOR } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+  return sharp(imagePath).composite([{ input: tint }]).png().toBuffer();
+}
+
+export const falImageProvider: ImageProvider = {
+  id: "fal",
+  name: "fal.ai Nano Banana Pro",
+  // nano-banana-pro has no seed input
+  supportsSeed: false,
+  billable: true,
+
+  async generateImage(request, context) {
+    const args: string[] = [
+      "--prompt", request.prompt,
+      "--output", request.outputPath,
+      "--aspect-ratio", request.aspectRatio,
+      "--resolution", request.resolution,
+    ];
+    for (const imagePath of request.referenceImages) {
+      args.push("--input", imagePath);
+    }
+
+    const result = await context.runScript(SCRIPT_PATH, args);
+
+    if (result.exitCode !== 0) {
+      return { success: false, error: classifyError(result.stderr || result.stdout) };
+    }
+
+    return { success: true, outputPath: result.artifacts?.[0] || request.outputPath };
+  },
+
+  async editImage(request, context) {
+    if (!process.env.FAL_KEY) {
+      return {
+        success: false,
+        error: { code: "MISSING_API_KEY", message: "FAL_KEY environment variable is not set", retryable: false },
+      };
+    }
+
+    const imagePath = path.resolve(context.cwd, request.imagePath);
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    try {
+      const image = await fs.readFile(imagePath);
+      const imageUrls = [await fal.storage.upload(new Blob([image], { type: "image/png" }))];
+      let prompt = request.prompt;
+      if (request.maskPath) {
+        const guide = await buildMaskGuide(imagePath, path.resolve(context.cwd, request.maskPath));
+        imageUrls.push(await fal.storage.upload(new Blob([new Uint8Array(guide)], { type: "image/png" })));
+        prompt = `Edit the first image. The second image is the same photo with the area to change tinted magenta; ` +
+          `change only that area and keep everything else identical. ${request.prompt}`;
+      }
+
+      const result = await fal.subscribe(EDIT_ENDPOINT, {
+        input: {
+          prompt,
+          image_urls: imageUrls,
+          aspect_ratio: "auto",
+          resolution: request.resolution as "1K" | "2K" | "4K",
+          output_format: "png",
+        },
+      });
+
+      const outputUrl = (result.data as { images?: Array<{ url?: string }> })?.images?.[0]?.url;
+      if (!outputUrl) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: "fal.ai returned no image", retryable: true },
+        };
+      }
+
+      const response = await fetch(outputUrl);
+      if (!response.ok) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: `Image download failed (${response.status})`, retryable: true },
+        };
+      }
+
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      return { success: false, error: classifyError(error instanceof Error ? error.message : String(error)) };
+    }
+
+    return { success: true, outputPath: request.outputPath };
+  },
+};
@@ -0,0 +1,97 @@
+// server/providers/fal-kling-video.ts
+// fal.ai Kling image-to-video provider (start frame only, needs FAL_KEY)
+
+import fs from "fs/promises";
+import path from "path";
+import { fal } from "@fal-ai/client";
+import { VideoProvider, ProviderError, VIDEO_RESOLUTION_HEIGHTS } from "./types.js";
+import { downscaleVideo } from "./ffmpeg.js";
+
+const ENDPOINT = "fal-ai/kling-video/v2.6/pro/image-to-video";
+
+/**
+ * Map a fal client error (ApiError carries the HTTP status) to a structured error
+ */
+function classifyError(error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: number })?.status;
+
+  if (status === 401 || status === 403) {
+    return { code: "MISSING_API_KEY", message: "FAL_KEY is missing or invalid", retryable: false };
+  }
+  if (status === 429 || /exhausted balance|insufficient|quota/i.test(message)) {
+    return { code: "QUOTA_EXCEEDED", message: "fal.ai quota or rate limit reached", retryable: false };
+  }
+  if (status === 422 && /safety|nsfw|content polic|flagged/i.test(message)) {
+    return { code: "SAFETY_FILTER", message: "Clip was blocked by the safety filter - adjust the prompt or frames", retryable: false };
+  }
+  if (status === 504 || /timed? ?out|ETIMEDOUT/i.test(message)) {
+    return { code: "TIMEOUT", message: "fal.ai request timed out", retryable: true };
+  }
+  return { code: "GENERATION_FAILED", message: message || "Video generation failed", retryable: true };
+}
+
+export const falKlingVideoProvider: VideoProvider = {
+  id: "fal-kling",
+  name: "fal.ai Kling v2.6 (start frame only)",
+  capabilities: {
+    tailFrame: false,
+    durations: ["5", "10"],
+    maxResolution: "1080p",
+    negativePrompt: true,
+  },
+  billable: true,
+
+  async generateVideo(request, context) {
+    if (!process.env.FAL_KEY) {
+      return {
+        success: false,
+        error: { code: "MISSING_API_KEY", message: "FAL_KEY environment variable is not set", retryable: false },
+      };
+    }
+
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    try {
+      const frame = await fs.readFile(path.resolve(context.cwd, request.startFrame));
+      const imageUrl = await fal.storage.upload(new Blob([frame], { type: "image/png" }));
+
+      const result = await fal.subscribe(ENDPOINT, {
+        input: {
+          prompt: request.prompt,
+          image_url: imageUrl,
+          duration: request.duration,
+          negative_prompt: request.negativePrompt,
+          generate_audio: false,
+        },
+      });
+
+      const videoUrl = (result.data as { video?: { url?: string } })?.video?.url;
+      if (!videoUrl) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: "fal.ai returned no video", retryable: true },
+        };
+      }
+
+      const response = await fetch(videoUrl);
+      if (!response.ok) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: `Video download failed (${response.status})`, retryable: true },
+        };
+      }
+
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      return { success: false, error: classifyError(error) };
+    }
+
+    if (request.resolution !== falKlingVideoProvider.capabilities.maxResolution) {
+      await downscaleVideo(absolutePath, VIDEO_RESOLUTION_HEIGHTS[request.resolution]);
+    }
+
+    return { success: true, outputPath: request.outputPath };
+  },
+};
@@ -0,0 +1,84 @@
+// server/providers/fal-upscale.ts
+// fal.ai Real-ESRGAN upscale provider with optional GFPGAN face restoration (needs FAL_KEY)
+
+import fs from "fs/promises";
+import path from "path";
+import { fal } from "@fal-ai/client";
+import { UpscaleProvider, ProviderError } from "./types.js";
+
+const ENDPOINT = "fal-ai/esrgan";
+
+/**
+ * Map a fal client error (ApiError carries the HTTP status) to a structured error
+ */
+function classifyError(error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: number })?.status;
+
+  if (status === 401 || status === 403) {
+    return { code: "MISSING_API_KEY", message: "FAL_KEY is missing or invalid", retryable: false };
+  }
+  if (status === 429 || /exhausted balance|insufficient|quota/i.test(message)) {
+    return { code: "QUOTA_EXCEEDED", message: "fal.ai quota or rate limit reached", retryable: false };
+  }
+  if (status === 504 || /timed? ?out|ETIMEDOUT/i.test(message)) {
+    return { code: "TIMEOUT", message: "fal.ai request timed out", retryable: true };
+  }
+  return { code: "GENERATION_FAILED", message: message || "Upscale failed", retryable: true };
+}
+
+export const falUpscaleProvider: UpscaleProvider = {
+  id: "fal-esrgan",
+  name: "fal.ai Real-ESRGAN",
+  supportsFaceRestore: true,
+  billable: true,
+
+  async upscale(request, context) {
+    if (!process.env.FAL_KEY) {
+      return {
+        success: false,
+        error: { code: "MISSING_API_KEY", message: "FAL_KEY environment variable is not set", retryable: false },
+      };
+    }
+
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    try {
+      const image = await fs.readFile(path.resolve(context.cwd, request.inputPath));
+      const imageUrl = await fal.storage.upload(new Blob([image], { type: "image/png" }));
+
+      const result = await fal.subscribe(ENDPOINT, {
+        input: {
+          image_url: imageUrl,
+          scale: request.scale,
+          model: "RealESRGAN_x4plus",
+          face: request.faceRestore,
+          output_format: "png",
+        },
+      });
+
+      const outputUrl = (result.data as { image?: { url?: string } })?.image?.url;
+      if (!outputUrl) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: "fal.ai returned no image", retryable: true },
+        };
+      }
+
+      const response = await fetch(outputUrl);
+      if (!response.ok) {
+        return {
+          success: false,
+          error: { code: "GENERATION_FAILED", message: `Image download failed (${response.status})`, retryable: true },
+        };
+      }
+
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      return { success: false, error: classifyError(error) };
+    }
+
+    return { success: true, outputPath: request.outputPath };
+  },
+};
@@ -0,0 +1,71 @@
+// server/providers/ffmpeg.ts
+// Shared ffmpeg helpers for video providers and video post-processing
+
+import fs from "fs/promises";
+import ffmpeg, { FfmpegCommand } from "fluent-ffmpeg";
+
+/**
+ * Run a fluent-ffmpeg command to completion
+ */
+export function runFfmpeg(command: FfmpegCommand): Promise<void> {
+  return new Promise((resolve, reject) => {
+    command
+      .on("end", () => resolve())
+      .on("error", (error: Error) => reject(error))
+      .run();
+  });
+}
+
+export interface VideoInfo {
+  width: number;
+  height: number;
+  duration: number;  // Seconds
+  fps: number;
+  hasAudio: boolean;
+}
+
+// ffprobe rates are fractions ("24000/1001"); "0/0" when unknown
+function parseFrameRate(rate: string | undefined): number {
+  const [num, den] = String(rate ?? "").split("/").map(Number);
+  return num > 0 && den > 0 ? num / den : 0;
+}
+
+/**
+ * Dimensions, duration, frame rate and audio presence of a video (ffprobe)
+ */
+export function probeVideo(absolutePath: string): Promise<VideoInfo> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(absolutePath, (error, data) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      const video = data.streams.find((stream) => stream.codec_type === "video");
+      if (!video?.width || !video?.height) {
+        reject(new Error(`No video stream in ${absolutePath}`));
+        return;
+      }
+      resolve({
+        width: video.width,
+        height: video.height,
+        duration: Number(data.format.duration) || 0,
+        fps: parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate) || 30,
+        hasAudio: data.streams.some((stream) => stream.codec_type === "audio"),
+      });
+    });
+  });
+}
+
+/**
+ * Scale a video down (never up) to the given height, in place
+ */
+export async function downscaleVideo(absolutePath: string, height: number): Promise<void> {
+  const tempPath = absolutePath.replace(/\.mp4$/, ".scaled.mp4");
+  await runFfmpeg(
+    ffmpeg(absolutePath)
+      .videoFilters(`scale=-2:'min(ih,${height})'`)
+      .outputOptions(["-c:v libx264", "-pix_fmt yuv420p", "-c:a copy"])
+      .output(tempPath)
+  );
+  await fs.rename(tempPath, absolutePath);
+}
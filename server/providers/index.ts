@@ -0,0 +1,198 @@
+// server/providers/index.ts
+// Provider registry - image and upscale backends are picked per action (template "provider" param),
+// the video backend from VIDEO_PROVIDER / GENERATION_PROVIDER
+
+import { ParamSchema } from "../actions/types.js";
+import { ImageProvider, UpscaleProvider, VideoProvider, VideoResolution, VIDEO_RESOLUTION_HEIGHTS } from "./types.js";
+import { falImageProvider } from "./fal-image.js";
+import { klingVideoProvider } from "./kling-video.js";
+import { falKlingVideoProvider } from "./fal-kling-video.js";
+import { mockImageProvider } from "./mock-image.js";
+import { mockVideoProvider } from "./mock-video.js";
+import { falUpscaleProvider } from "./fal-upscale.js";
+import { sharpUpscaleProvider } from "./sharp-upscale.js";
+
+export * from "./types.js";
+
+// Register new image backends here; they show up in the executors' provider dropdown
+const IMAGE_PROVIDERS: ImageProvider[] = [falImageProvider, mockImageProvider];
+const VIDEO_PROVIDERS: VideoProvider[] = [klingVideoProvider, falKlingVideoProvider, mockVideoProvider];
+const UPSCALE_PROVIDERS: UpscaleProvider[] = [falUpscaleProvider, sharpUpscaleProvider];
+
+/**
+ * GENERATION_PROVIDER=mock renders placeholders locally (no FAL_KEY / KLING_* needed);
+ * anything else uses the live fal.ai + Kling scripts
+ */
+function useMockProviders(): boolean {
+  return process.env.GENERATION_PROVIDER === "mock";
+}
+
+/**
+ * Provider id used when an action doesn't set one
+ */
+export function getDefaultImageProviderId(): string {
+  return useMockProviders() ? mockImageProvider.id : falImageProvider.id;
+}
+
+/**
+ * Look up an image provider by id (default provider if id is empty, undefined if unknown)
+ */
+export function getImageProvider(id?: unknown): ImageProvider | undefined {
+  const providerId = typeof id === "string" && id ? id : getDefaultImageProviderId();
+  return IMAGE_PROVIDERS.find((provider) => provider.id === providerId);
+}
+
+/**
+ * "provider" + "seed" params shared by the image-generation executors
+ */
+export function getImageProviderParams(): Record<string, ParamSchema> {
+  return {
+    provider: {
+      type: "enum",
+      label: "Provider",
+      description: "Image generation backend",
+      default: getDefaultImageProviderId(),
+      options: IMAGE_PROVIDERS.map((provider) => ({ value: provider.id, label: provider.name })),
+      advanced: true,
+    },
+    seed: {
+      type: "number",
+      label: "Seed",
+      description: "Fixed seed for reproducible output (only for providers with seed support)",
+      min: 0,
+      step: 1,
+      advanced: true,
+      enabledWhen: { provider: IMAGE_PROVIDERS.filter((provider) => provider.supportsSeed).map((provider) => provider.id) },
+    },
+  };
+}
+
+/**
+ * The video backend: VIDEO_PROVIDER if set, else mock/kling per GENERATION_PROVIDER.
+ * Fixed per process, since the clip executors' params are generated from its capabilities.
+ */
+export function getVideoProvider(): VideoProvider {
+  const configured = process.env.VIDEO_PROVIDER;
+  if (configured) {
+    const provider = VIDEO_PROVIDERS.find((p) => p.id === configured);
+    if (provider) return provider;
+    console.warn(`⚠️ Unknown VIDEO_PROVIDER "${configured}", using ${klingVideoProvider.id}`);
+  }
+  return useMockProviders() ? mockVideoProvider : klingVideoProvider;
+}
+
+/**
+ * Duration param offering exactly the provider's allowed clip lengths
+ */
+export function getVideoDurationParam(label: string, description: string): ParamSchema {
+  const { durations } = getVideoProvider().capabilities;
+  return {
+    type: "enum",
+    label,
+    description,
+    default: durations.includes("5") ? "5" : durations[0],
+    options: durations.map((seconds) => ({ value: seconds, label: `${seconds} seconds` })),
+  };
+}
+
+/**
+ * Resolution param with every size up to the provider's maximum
+ */
+export function getVideoResolutionParam(): ParamSchema {
+  const { maxResolution } = getVideoProvider().capabilities;
+  const resolutions = (Object.keys(VIDEO_RESOLUTION_HEIGHTS) as VideoResolution[]).filter(
+    (resolution) => VIDEO_RESOLUTION_HEIGHTS[resolution] <= VIDEO_RESOLUTION_HEIGHTS[maxResolution]
+  );
+  return {
+    type: "enum",
+    label: "Resolution",
+    description: "Clip resolution",
+    default: maxResolution,
+    options: resolutions.map((resolution) => ({ value: resolution, label: resolution })),
+    advanced: true,
+  };
+}
+
+/**
+ * Negative prompt param, only for providers that accept one
+ */
+export function getNegativePromptParams(): Record<string, ParamSchema> {
+  if (!getVideoProvider().capabilities.negativePrompt) {
+    return {};
+  }
+  return {
+    negativePrompt: {
+      type: "text",
+      label: "Negative Prompt",
+      description: "What to avoid in generation",
+      default: "blur, distort, and low quality",
+      advanced: true,
+    },
+  };
+}
+
+/**
+ * Snap a requested duration to the nearest one the provider allows
+ */
+export function resolveVideoDuration(provider: VideoProvider, duration: unknown): string {
+  const { durations } = provider.capabilities;
+  const requested = Number(duration) || 5;
+  return durations.reduce((best, seconds) =>
+    Math.abs(Number(seconds) - requested) < Math.abs(Number(best) - requested) ? seconds : best
+  );
+}
+
+/**
+ * Clamp a requested resolution to the provider's maximum
+ */
+export function resolveVideoResolution(provider: VideoProvider, resolution: unknown): VideoResolution {
+  const { maxResolution } = provider.capabilities;
+  const requested = String(resolution) as VideoResolution;
+  if (!(requested in VIDEO_RESOLUTION_HEIGHTS)) {
+    return maxResolution;
+  }
+  return VIDEO_RESOLUTION_HEIGHTS[requested] > VIDEO_RESOLUTION_HEIGHTS[maxResolution] ? maxResolution : requested;
+}
+
+/**
+ * Upscaler used when an action doesn't set one: UPSCALE_PROVIDER if set, else the local
+ * sharp fallback when running offline (mock or no FAL_KEY), else fal.ai
+ */
+export function getDefaultUpscaleProviderId(): string {
+  const configured = process.env.UPSCALE_PROVIDER;
+  if (configured && UPSCALE_PROVIDERS.some((provider) => provider.id === configured)) {
+    return configured;
+  }
+  return useMockProviders() || !process.env.FAL_KEY ? sharpUpscaleProvider.id : falUpscaleProvider.id;
+}
+
+/**
+ * Look up an upscale provider by id (default provider if id is empty, undefined if unknown)
+ */
+export function getUpscaleProvider(id?: unknown): UpscaleProvider | undefined {
+  const providerId = typeof id === "string" && id ? id : getDefaultUpscaleProviderId();
+  return UPSCALE_PROVIDERS.find((provider) => provider.id === providerId);
+}
+
+/**
+ * "provider" + "faceRestore" params for upscale_frames
+ */
+export function getUpscaleProviderParams(): Record<string, ParamSchema> {
+  return {
+    provider: {
+      type: "enum",
+      label: "Upscaler",
+      description: "Upscaling backend",
+      default: getDefaultUpscaleProviderId(),
+      options: UPSCALE_PROVIDERS.map((provider) => ({ value: provider.id, label: provider.name })),
+      advanced: true,
+    },
+    faceRestore: {
+      type: "boolean",
+      label: "Restore Faces",
+      description: "Sharpen facial detail while upscaling (only for providers with face restoration)",
+      default: true,
+      enabledWhen: { provider: UPSCALE_PROVIDERS.filter((provider) => provider.supportsFaceRestore).map((provider) => provider.id) },
+    },
+  };
+}
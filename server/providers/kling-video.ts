@@ -0,0 +1,73 @@
+// server/providers/kling-video.ts
+// Kling video provider (generate-video.ts script, needs KLING_ACCESS_KEY / KLING_SECRET_KEY)
+
+import path from "path";
+import { VideoProvider, ProviderError, VIDEO_RESOLUTION_HEIGHTS } from "./types.js";
+import { downscaleVideo } from "./ffmpeg.js";
+
+const SCRIPT_PATH = ".claude/skills/fashion-shoot-pipeline/scripts/generate-video.ts";
+
+/**
+ * Map script output to a structured error
+ */
+function classifyError(output: string): ProviderError {
+  if (output.includes("KLING")) {
+    return {
+      code: "MISSING_API_KEY",
+      message: "KLING_ACCESS_KEY and KLING_SECRET_KEY environment variables are required",
+      retryable: false,
+    };
+  }
+  if (/balance|quota|rate limit|\b429\b/i.test(output)) {
+    return { code: "QUOTA_EXCEEDED", message: "Kling quota or rate limit reached", retryable: false };
+  }
+  if (/risk|safety|content polic|sensitive/i.test(output)) {
+    return { code: "SAFETY_FILTER", message: "Clip was blocked by Kling's content filter - adjust the prompt or frames", retryable: false };
+  }
+  if (/timed? ?out|ETIMEDOUT/i.test(output)) {
+    return { code: "TIMEOUT", message: "Kling task timed out", retryable: true };
+  }
+  return { code: "GENERATION_FAILED", message: output || "Video generation failed", retryable: true };
+}
+
+export const klingVideoProvider: VideoProvider = {
+  id: "kling",
+  name: "Kling v2.6 (first + last frame)",
+  capabilities: {
+    tailFrame: true,
+    durations: ["5", "10"],
+    maxResolution: "1080p",
+    negativePrompt: true,
+  },
+  billable: true,
+
+  async generateVideo(request, context) {
+    const args: string[] = [
+      "--input", request.startFrame,
+      "--prompt", request.prompt,
+      "--output", request.outputPath,
+      "--duration", request.duration,
+    ];
+    if (request.endFrame) {
+      args.push("--input-tail", request.endFrame);
+    }
+    if (request.negativePrompt) {
+      args.push("--negative-prompt", request.negativePrompt);
+    }
+
+    const result = await context.runScript(SCRIPT_PATH, args);
+
+    if (result.exitCode !== 0) {
+      return { success: false, error: classifyError(result.stderr || result.stdout) };
+    }
+
+    const outputPath = result.artifacts?.[0] || request.outputPath;
+
+    // Kling pro renders at 1080p; smaller sizes are scaled locally
+    if (request.resolution !== klingVideoProvider.capabilities.maxResolution) {
+      await downscaleVideo(path.resolve(context.cwd, outputPath), VIDEO_RESOLUTION_HEIGHTS[request.resolution]);
+    }
+
+    return { success: true, outputPath };
+  },
+};
@@ -0,0 +1,142 @@
+// server/providers/mock-image.ts
+// Offline image provider - labelled placeholder images rendered locally with sharp
+
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { ImageProvider, ImageRequest } from "./types.js";
+
+// Long edge in pixels per resolution label
+const LONG_EDGE: Record<string, number> = {
+  "1K": 1024,
+  "2K": 2048,
+  "4K": 4096,
+};
+
+const GUTTER = 8;
+
+/**
+ * FNV-1a hash, so the same prompt always yields the same colour
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getDimensions(aspectRatio: string, resolution: string): { width: number; height: number } {
+  const longEdge = LONG_EDGE[resolution] ?? LONG_EDGE["2K"];
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) {
+    return { width: longEdge, height: longEdge };
+  }
+  return w >= h
+    ? { width: longEdge, height: Math.round((longEdge * h) / w) }
+    : { width: Math.round((longEdge * w) / h), height: longEdge };
+}
+
+/**
+ * SVG overlay: one labelled panel per grid cell, separated by dark gutters
+ * so extract_frames can detect the grid like on a real contact sheet
+ */
+function buildOverlay(request: ImageRequest, width: number, height: number, hue: number): string {
+  const rows = request.grid?.rows ?? 1;
+  const cols = request.grid?.cols ?? 1;
+  const cellWidth = (width - GUTTER * (cols + 1)) / cols;
+  const cellHeight = (height - GUTTER * (rows + 1)) / rows;
+  const fontSize = Math.round(Math.min(cellWidth, cellHeight) / 6);
+  const caption = escapeXml(request.prompt.slice(0, 60));
+
+  const cells: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+      const x = GUTTER + col * (cellWidth + GUTTER);
+      const y = GUTTER + row * (cellHeight + GUTTER);
+      const lightness = 45 + ((index * 7) % 20);
+      const label = rows * cols > 1 ? `${index + 1}` : "MOCK";
+      cells.push(
+        `<rect x="${x}" y="${y}" width="${cellWidth}" height="${cellHeight}" fill="hsl(${(hue + index * 12) % 360},45%,${lightness}%)"/>`,
+        `<text x="${x + cellWidth / 2}" y="${y + cellHeight / 2}" font-size="${fontSize}" font-family="sans-serif" fill="#ffffff" text-anchor="middle" dominant-baseline="middle">${label}</text>`
+      );
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect width="100%" height="100%" fill="#111111"/>
+    ${cells.join("\n    ")}
+    <text x="${width / 2}" y="${height - GUTTER * 3}" font-size="${Math.max(14, Math.round(fontSize / 4))}" font-family="sans-serif" fill="#ffffff" fill-opacity="0.7" text-anchor="middle">MOCK · ${caption}</text>
+  </svg>`;
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: "mock",
+  name: "Mock (local placeholder)",
+  supportsSeed: true,
+  billable: false,
+
+  async generateImage(request, context) {
+    const { width, height } = getDimensions(request.aspectRatio, request.resolution);
+    // Same prompt + seed → same image
+    const hue = hashString(`${request.prompt}#${request.seed ?? 0}`) % 360;
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    console.log(`🧪 [MOCK IMAGE] ${width}x${height} → ${request.outputPath}`);
+
+    try {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await sharp(Buffer.from(buildOverlay(request, width, height, hue)))
+        .png()
+        .toFile(absolutePath);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: "GENERATION_FAILED",
+          message: `Mock image failed: ${error instanceof Error ? error.message : String(error)}`,
+          retryable: false,
+        },
+      };
+    }
+
+    return { success: true, outputPath: request.outputPath, seed: request.seed ?? 0 };
+  },
+
+  // Hue-shifted copy of the image; edit_image keeps the change inside the mask
+  async editImage(request, context) {
+    const hue = 90 + (hashString(`${request.prompt}#${request.seed ?? 0}`) % 180);
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    console.log(`🧪 [MOCK IMAGE] Edit ${request.imagePath} → ${request.outputPath}`);
+
+    try {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await sharp(path.resolve(context.cwd, request.imagePath))
+        .modulate({ hue, saturation: 1.4 })
+        .png()
+        .toFile(absolutePath);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: "GENERATION_FAILED",
+          message: `Mock edit failed: ${error instanceof Error ? error.message : String(error)}`,
+          retryable: false,
+        },
+      };
+    }
+
+    return { success: true, outputPath: request.outputPath, seed: request.seed ?? 0 };
+  },
+};
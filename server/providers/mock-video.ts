@@ -0,0 +1,81 @@
+// server/providers/mock-video.ts
+// Offline video provider - ffmpeg crossfade from the start frame to the end frame
+
+import fs from "fs/promises";
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { VideoProvider, VIDEO_RESOLUTION_HEIGHTS } from "./types.js";
+import { runFfmpeg } from "./ffmpeg.js";
+
+const FPS = 24;
+
+export const mockVideoProvider: VideoProvider = {
+  id: "mock",
+  name: "Mock (local crossfade)",
+  capabilities: {
+    tailFrame: true,
+    durations: ["3", "5", "10"],
+    maxResolution: "1080p",
+    negativePrompt: false,
+  },
+  billable: false,
+
+  async generateVideo(request, context) {
+    const duration = Number(request.duration) || 5;
+    const height = VIDEO_RESOLUTION_HEIGHTS[request.resolution];
+    const startFrame = path.resolve(context.cwd, request.startFrame);
+    const absolutePath = path.resolve(context.cwd, request.outputPath);
+
+    console.log(`🧪 [MOCK VIDEO] ${request.startFrame} → ${request.endFrame || "(hold)"}, ${duration}s ${request.resolution} → ${request.outputPath}`);
+
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+
+    // Even dimensions for yuv420p; the end frame is scaled to match the start frame
+    const fit = `scale=-2:'min(ih,${height})',scale=trunc(iw/2)*2:trunc(ih/2)*2,setsar=1`;
+    const command = ffmpeg()
+      .input(startFrame)
+      .inputOptions(["-loop 1", `-t ${duration}`]);
+
+    if (request.endFrame) {
+      // Hold each frame for a third of the clip, crossfade over the middle third
+      const fade = duration / 3;
+      command
+        .input(path.resolve(context.cwd, request.endFrame))
+        .inputOptions(["-loop 1", `-t ${duration}`])
+        .complexFilter([
+          `[0:v]${fit}[a]`,
+          "[1:v][a]scale2ref[b][a2]",
+          `[a2][b]xfade=transition=fade:duration=${fade}:offset=${fade},format=yuv420p[v]`,
+        ])
+        .outputOptions(["-map [v]"]);
+    } else {
+      // No end frame: hold the start frame
+      command.videoFilters(`${fit},format=yuv420p`);
+    }
+
+    try {
+      await runFfmpeg(
+        command
+          .outputOptions([
+            `-t ${duration}`,
+            `-r ${FPS}`,
+            "-c:v libx264",
+            "-fflags +bitexact",
+            "-map_metadata -1",
+          ])
+          .output(absolutePath)
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: "GENERATION_FAILED",
+          message: `Mock clip failed: ${error instanceof Error ? error.message : String(error)}`,
+          retryable: false,
+        },
+      };
+    }
+
+    return { success: true, outputPath: request.outputPath };
+  },
+};
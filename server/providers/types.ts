@@ -0,0 +1,114 @@
+// server/providers/types.ts
+// Generation providers - the image and video backends behind the action executors
+
+import { ActionContext } from "../actions/types.js";
+
+// What a provider needs from the action context: the agent dir (request
+// paths are relative to it) and the script runner for script-based backends
+export type ProviderContext = Pick<ActionContext, "cwd" | "runScript">;
+
+// Structured failure reasons, surfaced to the client as the action's errorCode
+export type ProviderErrorCode =
+  | "MISSING_API_KEY"
+  | "QUOTA_EXCEEDED"
+  | "SAFETY_FILTER"
+  | "TIMEOUT"
+  | "GENERATION_FAILED";
+
+export interface ProviderError {
+  code: ProviderErrorCode;
+  message: string;
+  retryable: boolean;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  referenceImages: string[];
+  aspectRatio: string;       // e.g. "3:2"
+  resolution: string;        // "1K" | "2K" | "4K"
+  seed?: number;             // Ignored by providers without seed support
+  outputPath: string;
+  // Contact sheets: panel layout the image should have
+  grid?: { rows: number; cols: number };
+}
+
+export type ImageResponse =
+  | { success: true; outputPath: string; seed?: number }
+  | { success: false; error: ProviderError };
+
+export interface ImageEditRequest {
+  prompt: string;            // Edit instruction
+  imagePath: string;         // Image to edit
+  maskPath?: string;         // White = area to change; providers without mask input get a marked guide image
+  resolution: string;
+  seed?: number;
+  outputPath: string;
+}
+
+export interface UpscaleRequest {
+  inputPath: string;
+  outputPath: string;
+  scale: number;             // Output size multiplier, e.g. 2 or 4
+  faceRestore: boolean;      // Ignored by providers without face restoration
+}
+
+export type UpscaleResponse =
+  | { success: true; outputPath: string }
+  | { success: false; error: ProviderError };
+
+export type VideoResolution = "480p" | "720p" | "1080p";
+
+// Output heights, lowest first
+export const VIDEO_RESOLUTION_HEIGHTS: Record<VideoResolution, number> = {
+  "480p": 480,
+  "720p": 720,
+  "1080p": 1080,
+};
+
+// What a video backend can do; the clip executors' params are generated from this
+export interface VideoCapabilities {
+  tailFrame: boolean;        // Accepts an end frame (first/last-frame interpolation)
+  durations: string[];       // Allowed clip lengths in seconds, e.g. ["5", "10"]
+  maxResolution: VideoResolution;
+  negativePrompt: boolean;
+}
+
+export interface VideoRequest {
+  prompt: string;
+  startFrame: string;
+  endFrame?: string;         // Only sent when capabilities.tailFrame
+  duration: string;          // One of capabilities.durations
+  resolution: VideoResolution;
+  negativePrompt?: string;   // Only sent when capabilities.negativePrompt
+  outputPath: string;
+}
+
+export type VideoResponse =
+  | { success: true; outputPath: string }
+  | { success: false; error: ProviderError };
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  supportsSeed: boolean;
+  billable: boolean;         // false for local providers (no cost estimate)
+  generateImage(request: ImageRequest, context: ProviderContext): Promise<ImageResponse>;
+  // Instruction-based edit of an existing image (edit_image); omitted if unsupported
+  editImage?(request: ImageEditRequest, context: ProviderContext): Promise<ImageResponse>;
+}
+
+export interface VideoProvider {
+  id: string;
+  name: string;
+  capabilities: VideoCapabilities;
+  billable: boolean;
+  generateVideo(request: VideoRequest, context: ProviderContext): Promise<VideoResponse>;
+}
+
+export interface UpscaleProvider {
+  id: string;
+  name: string;
+  supportsFaceRestore: boolean;
+  billable: boolean;
+  upscale(request: UpscaleRequest, context: ProviderContext): Promise<UpscaleResponse>;
+}
@@ -0,0 +1,88 @@
+// server/scripts/mock-pipeline.ts
+// Offline run of the pipeline through ActionsManager.executeAction with the mock providers:
+// generate_hero → generate_contact_sheet → extract_frames → generate_all_clips
+//
+// Usage: npm run pipeline:mock  (GENERATION_PROVIDER=mock; needs ffmpeg on PATH, no FAL_KEY / KLING_*)
+
+import fs from "fs/promises";
+import path from "path";
+import { ActionsManager, createActionContext } from "../actions/index.js";
+import { ActionResult } from "../actions/types.js";
+import { generateHeroExecutor } from "../actions/generate-hero.js";
+import { generateContactSheetExecutor } from "../actions/generate-contact-sheet.js";
+import { extractFramesExecutor } from "../actions/extract-frames.js";
+import { generateAllClipsExecutor } from "../actions/generate-all-clips.js";
+import { getDefaultImageProviderId, getVideoProvider } from "../providers/index.js";
+
+const SESSION_ID = "mock-pipeline";
+
+// Steps in pipeline order; each result's artifacts become the asset the next step reads
+const STEPS: Array<{ templateId: string; asset: "hero" | "contactSheet" | "frames" | "videos"; params: Record<string, unknown> }> = [
+  { templateId: "generate_hero", asset: "hero", params: { prompt: "Editorial portrait, red wool coat, studio light", seed: 1 } },
+  // A 3×3 grid rather than the default 2×3, so the sheet's grid size reaches extract_frames
+  { templateId: "generate_contact_sheet", asset: "contactSheet", params: { prompt: "Nine angles of the hero look", rows: 3, cols: 3, seed: 1 } },
+  // The mock sheet's gutters are evenly spaced, so the plain grid crop is exact
+  { templateId: "extract_frames", asset: "frames", params: { cropMethod: "simple", rows: 3, cols: 3 } },
+  { templateId: "generate_all_clips", asset: "videos", params: { motionPrompt: "Slow push in", duration: "3", resolution: "480p" } },
+];
+
+async function main(): Promise<void> {
+  // Refuse to run against live providers, which would spend real money
+  if (getDefaultImageProviderId() !== "mock" || getVideoProvider().id !== "mock") {
+    console.error("❌ Set GENERATION_PROVIDER=mock (and leave VIDEO_PROVIDER unset or mock)");
+    process.exit(1);
+  }
+
+  const cwd = path.join(process.cwd(), "agent");
+  const outputDir = `outputs/${SESSION_ID}`;
+  await fs.rm(path.join(cwd, outputDir), { recursive: true, force: true });
+  await fs.mkdir(path.join(cwd, outputDir), { recursive: true });
+
+  // No store: the run leaves nothing in sessions/
+  const manager = new ActionsManager();
+  for (const executor of [generateHeroExecutor, generateContactSheetExecutor, extractFramesExecutor, generateAllClipsExecutor]) {
+    manager.registerTemplate(executor);
+  }
+
+  const assets: Record<string, string | string[]> = {};
+  const context = createActionContext({
+    sessionId: SESSION_ID,
+    cwd,
+    outputDir,
+    referenceImages: [],
+    assetGetter: (type) => assets[type === "extractedFrames" ? "frames" : type] ?? null,
+    stageGetter: () => "initial",
+    progressEmitter: (stage, message) => console.log(`   [${stage}] ${message}`),
+  });
+
+  for (const [index, step] of STEPS.entries()) {
+    const instanceId = `${SESSION_ID}-${index + 1}`;
+    manager.registerInstance({
+      instanceId,
+      sessionId: SESSION_ID,
+      templateId: step.templateId,
+      label: step.templateId,
+      params: step.params,
+      timestamp: new Date(),
+    });
+
+    console.log(`\n▶️  ${step.templateId}`);
+    const result: ActionResult = await manager.executeAction(instanceId, step.params, context);
+    if (!result.success) {
+      console.error(`❌ ${step.templateId} failed (${result.errorCode}): ${result.error}`);
+      process.exit(1);
+    }
+
+    const artifacts = result.artifacts ?? (result.artifact ? [result.artifact] : []);
+    await Promise.all(artifacts.map((artifact) => fs.access(path.resolve(cwd, artifact))));
+    assets[step.asset] = step.asset === "frames" || step.asset === "videos" ? artifacts : artifacts[0];
+    console.log(`✅ ${result.message ?? step.templateId}: ${artifacts.join(", ")}`);
+  }
+
+  console.log(`\n🎉 Mock pipeline finished: agent/${outputDir}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Mock pipeline failed:", error);
+  process.exit(1);
+});
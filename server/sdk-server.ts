@@ -1,14 +1,18 @@
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
 import { createServer } from 'http';
 import multer from 'multer';
+import sharp from 'sharp';
 import { aiClient, sessionManager, actionEmitter, type ActionProposal } from './lib/ai-client.js';
 import { SDKInstrumentor } from './lib/instrumentor.js';
-import { ORCHESTRATOR_SYSTEM_PROMPT } from './lib/orchestrator-prompt.js';
 import { WebSocketHandler, type WSServerMessage } from './lib/websocket-handler.js';
-import { actionsManager, createActionContext, type ActionInstance, type ActionResult, type PendingContinuation } from './actions/index.js';
+import { workflowRegistry } from './lib/workflow-registry.js';
+import { diffParams, getAssetSlot, parseAssetSlot, snapshotAsset } from './lib/asset-versions.js';
+import { parseSpeedCurve, renderSpeedCurveSvg, sampleSpeedCurve } from './lib/speed-curves.js';
+import { actionsManager, createActionContext, type ActionContext, type ActionInstance, type ActionResult, type PendingContinuation } from './actions/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,6 +30,7 @@ app.use(cors());
 app.use(express.json());
 
 // Serve generated assets from agent/outputs
+// Session assets are served from /outputs/<sessionId>/...
 app.use('/outputs', express.static(path.join(__dirname, '../agent/outputs')));
 
 // Serve uploaded files
@@ -57,6 +62,22 @@ const upload = multer({
   }
 });
 
+const audioUpload = multer({
+  storage,
+  limits: { fileSize: 30 * 1024 * 1024 }, // 30MB limit
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/flac'];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only MP3, WAV, M4A/AAC, OGG, and FLAC are allowed.'));
+    }
+  }
+});
+
+// Drop persisted action instances when their session is cleaned up
+sessionManager.onSessionRemoved((sessionId) => actionsManager.clearSession(sessionId));
+
 // Listen for action proposals from PostToolUse hooks
 // Register instance and forward to WebSocket clients for ActionCard UI
 actionEmitter.on('proposal', ({ sessionId, proposal }: { sessionId: string; proposal: ActionProposal }) => {
@@ -112,7 +133,16 @@ app.get('/health', (_req, res) => {
   });
 });
 
-// Workflows endpoint removed - using static ORCHESTRATOR_SYSTEM_PROMPT
+// List workflows loaded from workflows/*.json
+app.get('/workflows', (_req, res) => {
+  const workflows = workflowRegistry.list();
+  res.json({
+    success: true,
+    defaultWorkflowId: workflowRegistry.getDefaultId(),
+    count: workflows.length,
+    workflows
+  });
+});
 
 // Upload multiple images (subject + reference images)
 app.post('/upload', upload.array('images', 10), (req, res) => {
@@ -143,6 +173,33 @@ app.post('/upload', upload.array('images', 10), (req, res) => {
   });
 });
 
+// Upload a music track (for stitch_final)
+app.post('/upload/audio', audioUpload.single('audio'), (req, res) => {
+  const file = req.file;
+
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'No file uploaded'
+    });
+  }
+
+  console.log(`📤 Uploaded audio: ${file.originalname}`);
+
+  res.json({
+    success: true,
+    count: 1,
+    files: [{
+      originalName: file.originalname,
+      filename: file.filename,
+      path: file.path,
+      size: file.size,
+      mimetype: file.mimetype,
+      url: `/uploads/${file.filename}`
+    }]
+  });
+});
+
 // List sessions
 app.get('/sessions', (_req, res) => {
   const sessions = sessionManager.getActiveSessions();
@@ -169,6 +226,102 @@ app.get('/sessions/:id', (req, res) => {
   res.json({ success: true, session: stats });
 });
 
+// Fork a session at a workflow stage (copies assets up to that stage)
+app.post('/sessions/:id/fork', async (req, res) => {
+  const { stage, purpose } = req.body || {};
+  if (typeof stage !== 'string' || !stage) {
+    return res.status(400).json({ success: false, error: 'stage (workflow stage ID) required' });
+  }
+
+  try {
+    const fork = await sessionManager.forkSession(req.params.id, {
+      stage,
+      purpose: typeof purpose === 'string' && purpose.trim() ? purpose.trim() : undefined,
+    });
+    res.status(201).json({
+      success: true,
+      session: sessionManager.getSessionStats(fork.id),
+      pipeline: sessionManager.getPipelineStatus(fork.id)
+    });
+  } catch (error: any) {
+    const status = error.message.startsWith('Unknown stage') ? 400 : 404;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
+
+// Base session and all its forks, for the family view
+app.get('/sessions/:id/family', async (req, res) => {
+  const { baseSession, forks } = await sessionManager.getSessionFamily(req.params.id);
+  if (!baseSession) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  const describe = (id: string) => {
+    const pipeline = sessionManager.getPipelineStatus(id);
+    return {
+      ...sessionManager.getSessionStats(id),
+      currentStage: pipeline?.currentStage,
+      progress: pipeline?.progress ?? 0,
+      hero: pipeline?.assets.hero,
+      finalVideo: pipeline?.assets.finalVideo,
+    };
+  };
+
+  res.json({
+    success: true,
+    baseSession: describe(baseSession.id),
+    forks: forks.map(fork => describe(fork.id))
+  });
+});
+
+// Line up assets and the params that produced them for sessions of one family
+// (?ids=a,b limits the comparison; defaults to the whole family)
+app.get('/sessions/:id/family/compare', async (req, res) => {
+  const { baseSession, forks } = await sessionManager.getSessionFamily(req.params.id);
+  if (!baseSession) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  const familyIds = [baseSession.id, ...forks.map(fork => fork.id)];
+  const requested = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : familyIds;
+  const outsiders = requested.filter(id => !familyIds.includes(id));
+  if (outsiders.length > 0) {
+    return res.status(400).json({ success: false, error: `Not in this session family: ${outsiders.join(', ')}` });
+  }
+  if (requested.length < 2) {
+    return res.status(400).json({ success: false, error: 'Pick at least 2 sessions to compare' });
+  }
+
+  // Stage slots whose active version carries the params the comparison diffs
+  const paramSlots = ['hero', 'contactSheet', 'frame-1', 'video-1', 'finalVideo'];
+
+  const sessions = requested.map(id => {
+    const assets = sessionManager.getSessionAssets(id);
+    const versions = sessionManager.getAssetVersions(id) || {};
+    const params: Record<string, { templateId: string; params: Record<string, unknown> }> = {};
+    for (const slot of paramSlots) {
+      const active = assets?.activeVersions?.[slot];
+      const version = versions[slot]?.find(v => v.version === active) || versions[slot]?.at(-1);
+      if (version) {
+        params[slot] = { templateId: version.templateId, params: version.params };
+      }
+    }
+
+    return {
+      ...sessionManager.getSessionStats(id),
+      assets: {
+        hero: assets?.hero,
+        contactSheet: assets?.contactSheet,
+        frames: sessionManager.getFrameSequence(id) || [],
+        finalVideo: assets?.finalVideo,
+      },
+      params
+    };
+  });
+
+  res.json({ success: true, sessions });
+});
+
 // Get pipeline status for a session
 app.get('/sessions/:id/pipeline', (req, res) => {
   const pipelineStatus = sessionManager.getPipelineStatus(req.params.id);
@@ -196,6 +349,206 @@ app.get('/sessions/:id/assets', (req, res) => {
   });
 });
 
+// List asset versions per slot (optionally one slot via ?slot=hero)
+app.get('/sessions/:id/versions', (req, res) => {
+  const slot = typeof req.query.slot === 'string' ? req.query.slot : undefined;
+  const versions = sessionManager.getAssetVersions(req.params.id, slot);
+  if (!versions) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  res.json({
+    success: true,
+    sessionId: req.params.id,
+    activeVersions: sessionManager.getSessionAssets(req.params.id)?.activeVersions || {},
+    versions
+  });
+});
+
+// Diff the params of two versions of a slot (?from=1&to=2)
+app.get('/sessions/:id/versions/:slot/diff', (req, res) => {
+  const { id, slot } = req.params;
+  const versions = sessionManager.getAssetVersions(id, slot)?.[slot] || [];
+  const from = versions.find(v => v.version === Number(req.query.from));
+  const to = versions.find(v => v.version === Number(req.query.to));
+  if (!from || !to) {
+    return res.status(404).json({ success: false, error: `Versions ${req.query.from} and ${req.query.to} not found for ${slot}` });
+  }
+  res.json({
+    success: true,
+    slot,
+    from,
+    to,
+    changes: diffParams(from.params, to.params)
+  });
+});
+
+// Make an older version the active asset of its slot
+app.post('/sessions/:id/versions/:slot/promote', async (req, res) => {
+  const { id, slot } = req.params;
+  const versionNumber = Number(req.body?.version);
+  if (!Number.isInteger(versionNumber)) {
+    return res.status(400).json({ success: false, error: 'version (number) required' });
+  }
+
+  try {
+    const version = await sessionManager.promoteAssetVersion(id, slot, versionNumber);
+    res.json({ success: true, slot, activeVersion: version.version, path: version.path });
+  } catch (error: any) {
+    res.status(404).json({ success: false, error: error.message });
+  }
+});
+
+// Provider spend ledger and budget for a session
+app.get('/sessions/:id/costs', (req, res) => {
+  const summary = sessionManager.getCostSummary(req.params.id);
+  if (!summary) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  res.json({ success: true, sessionId: req.params.id, ...summary });
+});
+
+// Set the session budget in USD (null removes it)
+app.put('/sessions/:id/budget', async (req, res) => {
+  const budgetUsd = req.body?.budgetUsd;
+  if (budgetUsd !== null && (typeof budgetUsd !== 'number' || !Number.isFinite(budgetUsd) || budgetUsd < 0)) {
+    return res.status(400).json({ success: false, error: 'budgetUsd (number >= 0 or null) required' });
+  }
+
+  try {
+    await sessionManager.setBudget(req.params.id, budgetUsd);
+    res.json({ success: true, sessionId: req.params.id, ...sessionManager.getCostSummary(req.params.id) });
+  } catch (error: any) {
+    res.status(404).json({ success: false, error: error.message });
+  }
+});
+
+// Estimate the provider cost of running an action with the given params
+app.post('/sessions/:id/estimate', (req, res) => {
+  const { id } = req.params;
+  const { templateId, params } = req.body || {};
+  if (typeof templateId !== 'string' || !actionsManager.getTemplate(templateId)) {
+    return res.status(400).json({ success: false, error: `Unknown templateId: ${templateId}` });
+  }
+
+  // Estimate from coerced params, the same ones execution would see
+  const validation = actionsManager.validateParams(templateId, params || {});
+  if (!validation.success) {
+    return res.status(400).json({ success: false, error: 'Invalid parameters', fieldErrors: validation.fieldErrors });
+  }
+
+  const estimate = actionsManager.estimateCost(templateId, validation.params, {
+    getAsset: (type) => getSessionAsset(id, type),
+  });
+  const spentUsd = sessionManager.getSpend(id);
+  const budgetUsd = sessionManager.getBudget(id);
+  res.json({
+    success: true,
+    estimate,
+    spentUsd,
+    budgetUsd,
+    withinBudget: !estimate || budgetUsd === null || spentUsd + estimate.totalUsd <= budgetUsd,
+  });
+});
+
+// Render a quick preview of a previewable action (e.g. overlays on a still frame)
+app.post('/sessions/:id/preview', async (req, res) => {
+  const { id } = req.params;
+  const { templateId, params } = req.body || {};
+  const template = typeof templateId === 'string' ? actionsManager.getTemplate(templateId) : undefined;
+  if (!template) {
+    return res.status(400).json({ success: false, error: `Unknown templateId: ${templateId}` });
+  }
+  if (!template.previewable) {
+    return res.status(400).json({ success: false, error: `${template.name} has no preview` });
+  }
+
+  if (!await sessionManager.findSession(id)) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  const agentDir = process.cwd() + '/agent';
+  const outputDir = path.relative(agentDir, await sessionManager.ensureSessionOutputDir(id));
+  const context = createActionContext({
+    sessionId: id,
+    cwd: agentDir,
+    outputDir,
+    referenceImages: sessionManager.getPipelineStatus(id)?.inputImages || [],
+    assetGetter: (type) => getSessionAsset(id, type),
+    stageGetter: () => workflowRegistry.resolve(sessionManager.getWorkflowId(id)).engine.getCurrentStage(sessionManager.getSessionAssets(id)),
+    progressEmitter: () => {},
+  });
+
+  const result = await actionsManager.previewAction(template.id, params || {}, context);
+  // Failed previews are reported in the result (like action_complete) so the card can show them
+  res.json(result);
+});
+
+// Propose an action from the UI (e.g. edit_image after painting a mask in the image viewer)
+// It goes through the same path as agent proposals: an ActionCard the user reviews and runs
+app.post('/sessions/:id/actions', async (req, res) => {
+  const { id } = req.params;
+  const { templateId, label, params } = req.body || {};
+  const template = typeof templateId === 'string' ? actionsManager.getTemplate(templateId) : undefined;
+  if (!template) {
+    return res.status(400).json({ success: false, error: `Unknown templateId: ${templateId}` });
+  }
+
+  if (!await sessionManager.findSession(id)) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  const workflow = workflowRegistry.resolve(sessionManager.getWorkflowId(id));
+  if (!workflow.allowedActions.includes(template.id)) {
+    return res.status(400).json({ success: false, error: `${template.name} is not available in the "${workflow.config.name}" workflow` });
+  }
+  const inputCheck = workflow.engine.checkInputs(template.id, sessionManager.getSessionAssets(id));
+  if (!inputCheck.ok) {
+    return res.status(400).json({ success: false, error: inputCheck.message });
+  }
+
+  const proposal: ActionProposal = {
+    type: 'action_proposal',
+    instanceId: `action_${randomUUID()}`,
+    templateId: template.id,
+    label: typeof label === 'string' && label ? label : template.name,
+    params: params && typeof params === 'object' ? params : {},
+    timestamp: new Date().toISOString(),
+  };
+  actionEmitter.emit('proposal', { sessionId: id, proposal });
+  res.json({ success: true, instanceId: proposal.instanceId });
+});
+
+// Preview a speed curve as a graph (svg/png) or samples (json), without rendering video
+// e.g. /speed-curves/preview?curve=0:0.4,0.5:3,1:0.4&duration=1.5&format=png
+app.get('/speed-curves/preview', async (req, res) => {
+  const parsed = parseSpeedCurve(req.query.curve);
+  if ('error' in parsed) {
+    return res.status(400).json({ success: false, error: parsed.error });
+  }
+
+  const format = String(req.query.format || 'svg');
+  if (!['svg', 'png', 'json'].includes(format)) {
+    return res.status(400).json({ success: false, error: `Unknown format: ${format} (use svg, png or json)` });
+  }
+  const duration = Number(req.query.duration) > 0 ? Number(req.query.duration) : undefined;
+  const width = Math.min(1200, Math.max(120, Number(req.query.width) || 320));
+  const height = Math.min(800, Math.max(80, Number(req.query.height) || 160));
+
+  if (format === 'json') {
+    return res.json({ success: true, curve: parsed.curve, samples: sampleSpeedCurve(parsed.curve, 60) });
+  }
+
+  const svg = renderSpeedCurveSvg(parsed.curve, { width, height, duration });
+  if (format === 'png') {
+    try {
+      const png = await sharp(Buffer.from(svg)).png().toBuffer();
+      return res.type('png').send(png);
+    } catch (error) {
+      console.error('❌ Speed curve preview error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to render preview' });
+    }
+  }
+  res.type('svg').send(svg);
+});
+
 // Cancel active generation for a session
 app.post('/sessions/:id/cancel', (req, res) => {
   const sessionId = req.params.id;
@@ -217,12 +570,52 @@ app.post('/sessions/:id/cancel', (req, res) => {
 // WebSocket Event Handlers
 // ============================================
 
+/**
+ * Asset lookup for action contexts and cost estimates
+ */
+function getSessionAsset(sessionId: string, type: Parameters<ActionContext['getAsset']>[0]): string | string[] | null {
+  const assets = sessionManager.getSessionAssets(sessionId);
+  if (!assets) return null;
+  switch (type) {
+    case 'hero': return assets.hero ?? null;
+    case 'contactSheet': return assets.contactSheet ?? null;
+    case 'frames': return sessionManager.getFrameSequence(sessionId);
+    case 'extractedFrames': return assets.frames ?? null;
+    case 'originalFrames': return assets.originalFrames ?? null;
+    case 'videos': return assets.videos ?? null;
+    case 'finalVideo': return assets.finalVideo ?? null;
+    default: return null;
+  }
+}
+
+/**
+ * Clip slot from a clip path (outputs/videos/video-<n>.mp4 → n-1)
+ */
+function getClipIndex(artifact: string): number | undefined {
+  const match = /video-(\d+)\.mp4$/.exec(artifact);
+  return match ? Number(match[1]) - 1 : undefined;
+}
+
+/**
+ * System prompt for the workflow the session was created with
+ * Loads the session from disk if needed (e.g. continuing after a restart).
+ */
+async function getSessionSystemPrompt(sessionId: string): Promise<string> {
+  const session = await sessionManager.getOrCreateSession(sessionId);
+  return workflowRegistry.resolve(session.metadata.workflowId).systemPrompt;
+}
+
 /**
  * Handle WebSocket 'chat' event - Start new generation via WebSocket
  */
-wsHandler.on('chat', async ({ clientId, sessionId, content, images }) => {
+wsHandler.on('chat', async ({ clientId, sessionId, content, images, workflowId }) => {
   console.log(`🔌 [WS] Chat from ${clientId}: ${content.substring(0, 50)}...`);
 
+  if (workflowId && !workflowRegistry.has(workflowId)) {
+    wsHandler.sendToClientById(clientId, { type: 'error', error: `Unknown workflow: ${workflowId}` });
+    return;
+  }
+
   const campaignSessionId = sessionId || `session_${Date.now()}`;
   const instrumentor = new SDKInstrumentor(campaignSessionId, content);
 
@@ -236,18 +629,20 @@ wsHandler.on('chat', async ({ clientId, sessionId, content, images }) => {
   });
 
   try {
-    await sessionManager.getOrCreateSession(campaignSessionId);
+    // workflowId only applies when the session is created; existing sessions keep theirs
+    await sessionManager.getOrCreateSession(campaignSessionId, { workflowId: workflowId || workflowRegistry.getDefaultId() });
     await sessionManager.createSessionDirectories(campaignSessionId);
 
     if (images && images.length > 0) {
       await sessionManager.addInputImages(campaignSessionId, images);
     }
 
-    // Build prompt with image paths
-    let fullPrompt = content;
+    // Build prompt with image paths (a new fork first learns what it branched from)
+    const forkBriefing = sessionManager.getForkBriefing(campaignSessionId);
+    let fullPrompt = forkBriefing ? `${forkBriefing}\n\n${content}` : content;
     if (images && images.length > 0) {
       const inputFlags = images.map((img: string) => `--input "${img}"`).join(' ');
-      fullPrompt = `${content}
+      fullPrompt = `${fullPrompt}
 
 ## Reference Image File Paths (use ALL of these with --input flags in generate-image.ts)
 ${images.map((img: string, i: number) => `- Reference ${i + 1}: ${img}`).join('\n')}
@@ -255,7 +650,7 @@ ${images.map((img: string, i: number) => `- Reference ${i + 1}: ${img}`).join('\
 CRITICAL: You MUST pass ALL reference images using multiple --input flags to preserve subject appearance AND include all referenced items.
 
 Example command with ALL ${images.length} reference images:
-npx tsx scripts/generate-image.ts --prompt "..." ${inputFlags} --output outputs/hero.png --aspect-ratio 3:2 --resolution 2K`;
+npx tsx scripts/generate-image.ts --prompt "..." ${inputFlags} --output outputs/${campaignSessionId}/hero.png --aspect-ratio 3:2 --resolution 2K`;
     }
 
     const assistantMessages: string[] = [];
@@ -264,7 +659,8 @@ npx tsx scripts/generate-image.ts --prompt "..." ${inputFlags} --output outputs/
     let toolStartTimes: Record<number, number> = {};  // Track tool execution start times
     let hintSent = false;
 
-    for await (const result of aiClient.queryWithSession(fullPrompt, campaignSessionId, { systemPrompt: ORCHESTRATOR_SYSTEM_PROMPT })) {
+    const systemPrompt = await getSessionSystemPrompt(campaignSessionId);
+    for await (const result of aiClient.queryWithSession(fullPrompt, campaignSessionId, { systemPrompt })) {
       const { message } = result;
       instrumentor.processMessage(message);
 
@@ -430,7 +826,8 @@ wsHandler.on('continue', async ({ clientId, sessionId, content }) => {
     let toolStartTimes: Record<number, number> = {};
     let hintSent = false;
 
-    for await (const result of aiClient.queryWithSession(prompt, sessionId, { systemPrompt: ORCHESTRATOR_SYSTEM_PROMPT })) {
+    const systemPrompt = await getSessionSystemPrompt(sessionId);
+    for await (const result of aiClient.queryWithSession(prompt, sessionId, { systemPrompt })) {
       const { message } = result;
       instrumentor.processMessage(message);
 
@@ -583,9 +980,19 @@ wsHandler.on('cancel', async ({ clientId, sessionId }) => {
 wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params, originalParams }) => {
   console.log(`🎬 [WS] Execute action from ${clientId}: instance=${instanceId}`);
 
-  // 1. Look up instance
+  // Re-attach after a server restart: the session may only exist on disk, but is never created here
+  if (!await sessionManager.findSession(sessionId)) {
+    wsHandler.sendToClientById(clientId, {
+      type: 'error',
+      error: `Session not found: ${sessionId}`,
+    });
+    return;
+  }
+  wsHandler.autoSubscribeClient(clientId, sessionId);
+
+  // 1. Look up instance (it only runs against the session that proposed it)
   const instance = actionsManager.getInstance(instanceId);
-  if (!instance) {
+  if (!instance || instance.sessionId !== sessionId) {
     wsHandler.sendToClientById(clientId, {
       type: 'error',
       error: `Action instance not found: ${instanceId}`,
@@ -612,7 +1019,9 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
   } as WSServerMessage);
 
   // 3. Create action context
-  const outputDir = sessionManager.getSessionOutputDir(sessionId) || `agent/outputs`;
+  // Executors run with cwd agent/, so outputDir is relative to it (outputs/<sessionId>)
+  const agentDir = process.cwd() + '/agent';
+  const outputDir = path.relative(agentDir, await sessionManager.ensureSessionOutputDir(sessionId));
   const pipelineStatus = sessionManager.getPipelineStatus(sessionId);
   const referenceImages = pipelineStatus?.inputImages || [];
 
@@ -623,36 +1032,11 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
 
   const context = createActionContext({
     sessionId,
-    cwd: process.cwd() + '/agent',
+    cwd: agentDir,
     outputDir,
     referenceImages,
-    assetGetter: (type) => {
-      const assets = sessionManager.getSessionAssets(sessionId);
-      if (!assets) return null;
-      switch (type) {
-        case 'hero': return assets.hero ?? null;
-        case 'contactSheet': return assets.contactSheet ?? null;
-        case 'frames': return assets.frames ?? null;
-        case 'videos': return assets.videos ?? null;
-        default: return null;
-      }
-    },
-    stageGetter: () => {
-      const pipeline = sessionManager.getPipelineStatus(sessionId);
-      // Map session-manager stage to action stage
-      const stageMap: Record<string, 'hero' | 'contact-sheet' | 'frames' | 'resize' | 'clips' | 'final'> = {
-        'initialized': 'hero',
-        'analyzing': 'hero',
-        'generating-hero': 'hero',
-        'generating-contact-sheet': 'contact-sheet',
-        'isolating-frames': 'frames',
-        'generating-videos': 'clips',
-        'stitching': 'final',
-        'completed': 'final',
-        'error': 'hero',
-      };
-      return stageMap[pipeline?.stage || 'initialized'] || 'hero';
-    },
+    assetGetter: (type) => getSessionAsset(sessionId, type),
+    stageGetter: () => workflowRegistry.resolve(sessionManager.getWorkflowId(sessionId)).engine.getCurrentStage(sessionManager.getSessionAssets(sessionId)),
     progressEmitter: (stage, message, progress) => {
       wsHandler.broadcastToSession(sessionId, {
         type: 'action_progress',
@@ -665,11 +1049,30 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
     },
   });
 
-  // 4. Execute with auto-retry once on transient errors
+  // 4. Check the session budget, then execute with auto-retry once on transient errors
   let result: ActionResult;
   let autoRetried = false;
 
-  result = await actionsManager.executeAction(instanceId, params, context);
+  // Invalid params skip the estimate; executeAction rejects them with field errors
+  const validation = actionsManager.validateParams(instance.templateId, params);
+  const estimate = validation.success
+    ? actionsManager.estimateCost(instance.templateId, validation.params, context)
+    : null;
+  const budget = sessionManager.getBudget(sessionId);
+  const spent = sessionManager.getSpend(sessionId);
+
+  if (estimate && budget !== null && spent + estimate.totalUsd > budget) {
+    console.log(`💰 [ACTION] Rejected ${instanceId}: $${estimate.totalUsd.toFixed(2)} would exceed budget ($${spent.toFixed(2)} of $${budget.toFixed(2)} spent)`);
+    actionsManager.updateInstanceStatus(instanceId, 'error');
+    result = {
+      success: false,
+      error: `Estimated cost $${estimate.totalUsd.toFixed(2)} exceeds the remaining session budget ($${Math.max(0, budget - spent).toFixed(2)} of $${budget.toFixed(2)})`,
+      errorCode: 'BUDGET_EXCEEDED',
+      retryable: false,
+    };
+  } else {
+    result = await actionsManager.executeAction(instanceId, params, context);
+  }
 
   // Auto-retry once if the error is retryable
   if (!result.success && result.retryable) {
@@ -693,37 +1096,108 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
 
   // 5. Store artifacts in session manager for subsequent actions
   if (result.success) {
+    // The params that ran: validated, coerced, without hidden or disabled ones
+    const ranParams = validation.success ? validation.params : params;
+    // Grid slot of a single rewritten frame (regenerate_frame)
+    const frameIndex = typeof ranParams.frameNumber === 'number' ? ranParams.frameNumber - 1 : 0;
+
+    if (result.cost) {
+      await sessionManager.recordActionCost(sessionId, instanceId, instance.templateId, result.cost);
+    }
+
     // Map template IDs to asset types
     const assetTypeMap: Record<string, 'hero' | 'contactSheet' | 'frame' | 'video' | 'finalVideo'> = {
       'generate_hero': 'hero',
       'generate_contact_sheet': 'contactSheet',
       'extract_frames': 'frame',
       'resize_frames': 'frame',
+      'upscale_frames': 'frame',
+      'regenerate_frame': 'frame',
       'generate_video_clip': 'video',
       'generate_all_clips': 'video',
       'stitch_final': 'finalVideo',
+      'add_overlays': 'finalVideo',
     };
 
-    const assetType = assetTypeMap[instance.templateId];
+    // edit_image writes a new version of whichever slot it targets
+    const editSlot = instance.templateId === 'edit_image' ? parseAssetSlot(String(params.target)) : null;
+    const assetType = editSlot?.assetType ?? assetTypeMap[instance.templateId];
+    // The first upscale keeps the crops it started from; later ones start from those again
+    const assetsBefore = sessionManager.getSessionAssets(sessionId);
+    const framesBeforeUpscale = instance.templateId === 'upscale_frames'
+      ? assetsBefore?.originalFrames ?? [...(assetsBefore?.frames ?? [])]
+      : null;
     if (assetType) {
+      // Each stored artifact becomes a new version of its slot; the result is rewritten
+      // to the versioned copies so earlier chat messages keep showing their own version
+      const storeVersion = async (artifact: string, index?: number): Promise<string> => {
+        const slot = getAssetSlot(assetType, index);
+        const versionedPath = await snapshotAsset(agentDir, outputDir, artifact, slot, sessionManager.getNextAssetVersion(sessionId, slot));
+        const version = await sessionManager.addAssetVersion(sessionId, assetType, index, {
+          path: versionedPath,
+          templateId: instance.templateId,
+          instanceId,
+          params: ranParams,
+          prompt: typeof ranParams.prompt === 'string' ? ranParams.prompt
+            : typeof ranParams.motionPrompt === 'string' ? ranParams.motionPrompt : undefined,
+        });
+        console.log(`💾 [ACTION] Stored ${slot} v${version.version}: ${versionedPath}`);
+        return versionedPath;
+      };
+
       if (result.artifact) {
         // Single artifact
-        if (assetType === 'video') {
-          // Extract clip number from params or artifact path
-          const clipNum = params.clipNumber as number || 1;
-          await sessionManager.addAsset(sessionId, assetType, result.artifact, clipNum - 1);
+        if (editSlot) {
+          result.artifact = await storeVersion(result.artifact, editSlot.index);
+        } else if (assetType === 'video') {
+          // Clip slot from the clip path, as for batches; else the validated clip number
+          const clipIndex = getClipIndex(result.artifact)
+            ?? (typeof ranParams.clipNumber === 'number' ? ranParams.clipNumber - 1 : 0);
+          result.artifact = await storeVersion(result.artifact, clipIndex);
+        } else if (assetType === 'frame') {
+          // Single regenerated frame: the frame number is its grid slot
+          result.artifact = await storeVersion(result.artifact, frameIndex);
         } else {
-          await sessionManager.addAsset(sessionId, assetType, result.artifact);
+          result.artifact = await storeVersion(result.artifact);
         }
-        console.log(`💾 [ACTION] Stored ${assetType} asset: ${result.artifact}`);
       } else if (result.artifacts && result.artifacts.length > 0) {
-        // Multiple artifacts (frames or videos)
+        // Multiple artifacts replace the whole frame/clip set (its size follows the grid).
+        // resize_frames and upscale_frames rewrite the same frames in place, so the frame sequence is kept.
+        if (instance.templateId !== 'resize_frames' && instance.templateId !== 'upscale_frames') {
+          await sessionManager.clearAssetList(sessionId, assetType === 'frame' ? 'frames' : 'videos');
+        }
+        const versionedArtifacts: string[] = [];
         for (let i = 0; i < result.artifacts.length; i++) {
-          await sessionManager.addAsset(sessionId, assetType, result.artifacts[i], i);
+          // Clips keep their clip-number slot even when an earlier clip failed
+          const index = assetType === 'video' ? getClipIndex(result.artifacts[i]) ?? i : i;
+          versionedArtifacts.push(await storeVersion(result.artifacts[i], index));
         }
-        console.log(`💾 [ACTION] Stored ${result.artifacts.length} ${assetType} assets`);
+        result.artifacts = versionedArtifacts;
       }
     }
+
+    // Upscaled frames replace frames; the crops they came from stay available as originalFrames.
+    // Resizing rewrites the upscaled frames, so the originals no longer match.
+    if (framesBeforeUpscale) {
+      await sessionManager.setOriginalFrames(sessionId, framesBeforeUpscale);
+    } else if (instance.templateId === 'resize_frames') {
+      await sessionManager.setOriginalFrames(sessionId, null);
+    } else if (instance.templateId === 'regenerate_frame' && assetsBefore?.originalFrames && result.artifact) {
+      // Regenerated at crop size, so it is the new original for its slot
+      const originals = [...assetsBefore.originalFrames];
+      originals[frameIndex] = result.artifact;
+      await sessionManager.setOriginalFrames(sessionId, originals);
+    }
+
+    // Frame sequence is stored as an order over the extracted frames, not as new assets
+    if (instance.templateId === 'reorder_frames' && result.artifacts) {
+      await sessionManager.setFrameSequence(sessionId, result.artifacts);
+    }
+
+    // Exports are derived from the final video, so they're kept per preset without versions
+    if (instance.templateId === 'export_video' && result.downloads) {
+      await sessionManager.setExports(sessionId, Object.fromEntries(result.downloads.map(({ id, path }) => [id, path])));
+    }
   }
 
   // 6. Broadcast action_complete or action_error
@@ -745,6 +1219,9 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
         artifacts: result.artifacts,
         message: result.message,
         duration: result.duration,
+        itemErrors: result.itemErrors,
+        cost: result.cost,
+        downloads: result.downloads,
       },
     } as WSServerMessage);
   } else {
@@ -755,12 +1232,21 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
       result: {
         success: false,
         error: result.error,
+        errorCode: result.errorCode,
         message: result.message,
         duration: result.duration,
+        itemErrors: result.itemErrors,
+        fieldErrors: result.fieldErrors,
       },
     } as WSServerMessage);
   }
 
+  // Invalid params are fixed in the ActionCard and re-submitted - nothing to continue yet
+  if (result.errorCode === 'VALIDATION_ERROR') {
+    console.log(`⚠️ [ACTION] ${instanceId} rejected: invalid params`, result.fieldErrors);
+    return;
+  }
+
   // 7. Calculate user parameter changes
   const userParamChanges: Record<string, { from: unknown; to: unknown }> = {};
   for (const key of Object.keys(params)) {
@@ -798,6 +1284,8 @@ wsHandler.on('execute_action', async ({ clientId, sessionId, instanceId, params,
 wsHandler.on('continue_action', async ({ clientId, sessionId, instanceId }) => {
   console.log(`▶️ [WS] Continue action from ${clientId}: instance=${instanceId}`);
 
+  wsHandler.autoSubscribeClient(clientId, sessionId);
+
   // Check for pending continuation
   const pendingContinuation = actionsManager.getPendingContinuation(sessionId);
   if (!pendingContinuation) {
@@ -823,7 +1311,8 @@ wsHandler.on('continue_action', async ({ clientId, sessionId, instanceId }) => {
     let toolStartTimes: Record<number, number> = {};
     let hintSent = false;
 
-    for await (const result of aiClient.queryWithSession(continuationMessage, sessionId, { systemPrompt: ORCHESTRATOR_SYSTEM_PROMPT })) {
+    const systemPrompt = await getSessionSystemPrompt(sessionId);
+    for await (const result of aiClient.queryWithSession(continuationMessage, sessionId, { systemPrompt })) {
       const { message } = result;
       instrumentor.processMessage(message);
 
@@ -954,6 +1443,9 @@ wsHandler.on('continue_action', async ({ clientId, sessionId, instanceId }) => {
 // Server Startup
 // ============================================
 
+// Reload action instances and pending continuations persisted before restart
+await actionsManager.restore();
+
 // Start HTTP server (serves both Express and WebSocket)
 httpServer.listen(PORT, () => {
   console.log(`
@@ -965,11 +1457,20 @@ httpServer.listen(PORT, () => {
 ║                                                ║
 ║  REST Endpoints:                               ║
 ║  GET  /health                - Health check    ║
+║  GET  /workflows             - List workflows  ║
 ║  POST /upload                - Upload images   ║
 ║  GET  /sessions              - List sessions   ║
 ║  GET  /sessions/:id          - Session info    ║
+║  POST /sessions/:id/fork     - Fork at stage   ║
+║  GET  /sessions/:id/family   - Base + forks    ║
+║  GET  /sessions/:id/family/compare?ids=a,b     ║
 ║  GET  /sessions/:id/pipeline - Pipeline status ║
 ║  GET  /sessions/:id/assets   - Get assets      ║
+║  GET  /sessions/:id/versions - Asset versions  ║
+║  POST /sessions/:id/versions/:slot/promote     ║
+║  GET  /sessions/:id/costs    - Spend ledger    ║
+║  PUT  /sessions/:id/budget   - Set budget      ║
+║  POST /sessions/:id/estimate - Action cost     ║
 ║  POST /sessions/:id/cancel   - Cancel          ║
 ║                                                ║
 ║  WebSocket Messages (client → server):         ║